@@ -1,6 +1,11 @@
 #!/usr/bin/env bun
 import { join } from "path";
 const dir = new URL("..", import.meta.url).pathname;
-await Bun.spawn(["bun", join(dir, "src/server.ts"), ...process.argv.slice(2)], {
+const [command, ...rest] = process.argv.slice(2);
+const [script, args] = command === "migrate-data"
+  ? ["src/migrate-data.ts", rest]
+  : ["src/server.ts", process.argv.slice(2)];
+const proc = Bun.spawn(["bun", join(dir, script), ...args], {
   stdio: ["inherit", "inherit", "inherit"],
-}).exited;
+});
+process.exitCode = await proc.exited;
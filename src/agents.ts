@@ -1,58 +1,98 @@
-import {
-  createOpencodeClient,
-  createOpencodeServer,
-  type AssistantMessage as OpenCodeAssistantMessage,
-  type Event as OpenCodeEvent,
-  type FileDiff as OpenCodeFileDiff,
-  type GlobalEvent as OpenCodeGlobalEvent,
-  type OpencodeClient,
-  type Part as OpenCodePart,
-  type Permission as OpenCodePermission,
-  type Provider as OpenCodeProvider,
-} from "@opencode-ai/sdk";
 import { readdir, stat } from "fs/promises";
-import { join, basename } from "path";
+import { join, basename, resolve, relative, sep } from "path";
 import type {
+  AgentBackend,
   AgentSession,
   AgentMessage,
+  ArchivedSessionSummary,
+  Attachment,
+  BackendInfo,
   ContentBlock,
   LaunchableRepo,
   RepoGitStatus,
     PendingPermission,
     PermissionMode,
+    PermissionRule,
+    SearchHit,
     SessionDiffEntry,
+    SessionExportBundle,
+    OpencodeSessionSummary,
+    OpencodeRuntimeStatus,
+    SessionStorageUsage,
   } from "./types.ts";
 import {
   ensureDataDir,
   saveSession,
   loadAllSessions,
   deleteSessionFile,
+  archiveSession,
+  listArchivedSessions,
+  restoreArchivedSession,
+  searchMessages,
+  loadMessagesFrom,
+  loadMessagesBefore,
+  getStorageWarnings,
+  dismissStorageWarnings,
+  loadSession,
+  hasStoredSession,
+  createSessionBundle,
+  parseSessionBundle,
+  deserializeSession,
+  getStorageUsage,
+  compactStore,
+  deleteStoredMessages,
+  replaceStoredMessages,
+  saveAttachment,
+  loadAttachment,
+  serializeMessage,
+  deserializeMessage,
+  loadPermissionRules,
+  savePermissionRule,
+  deletePermissionRule,
 } from "./persistence.ts";
-import { getReposDir, isRepoBlacklisted } from "./config.ts";
+import {
+  loadPermissionPolicy,
+  evaluatePermissionPolicy,
+  touchesPermissionSettings,
+  describePermission,
+  describePolicyRule,
+  type LoadedPolicyRule,
+} from "./permission-policy.ts";
+import { selectSessionsToPrune, hasRetentionLimits, type PruneReason } from "./retention.ts";
+import {
+  getReposDir,
+  isInReposDir,
+  isRepoBlacklisted,
+  getRetentionPolicy,
+  getAutoCompactThreshold,
+  getPermissionTimeout,
+  type PermissionTimeout,
+  type RetentionPolicy,
+  type OpencodeServerOptions,
+} from "./config.ts";
+import type {
+  AgentBackendAdapter,
+  BackendAgent,
+  BackendAssistantMessage,
+  BackendCommand,
+  BackendEvent,
+  BackendFile,
+  BackendFileReference,
+  BackendPermission,
+  BackendTranscriptEntry,
+  BackendTurnInfo,
+  ModelOption,
+  PermissionReply,
+} from "./backend.ts";
+import { OpencodeBackend, DEFAULT_OPENCODE_MODEL, DEFAULT_OPENCODE_PROVIDER } from "./opencode-backend.ts";
+import { DemoBackend } from "./demo-backend.ts";
 
 // --- Constants ---
 
 const ARCHIVED_MARKER = ".archived.md";
-const PERMISSION_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 const MESSAGE_WINDOW_LIMIT = 100; // Maximum messages to keep in memory per session
-const DEFAULT_OPENCODE_PROVIDER = "anthropic";
-const DEFAULT_OPENCODE_MODEL = "claude-sonnet-4-5";
-
-type OpencodeRuntime = {
-  client: OpencodeClient;
-  server: {
-    url: string;
-    close(): void;
-  };
-};
-
-type ModelOption = {
-  model: string;
-  label: string;
-  description: string;
-  providerId?: string;
-  providerName?: string;
-};
+const RETENTION_SWEEP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const RETENTION_COMPACT_MIN_FREE_BYTES = 32 * 1024 * 1024; // Background sweeps only VACUUM past this much free space
 
 // --- Git Helpers ---
 
@@ -96,6 +136,30 @@ async function getRepoGitStatus(repoPath: string): Promise<RepoGitStatus> {
   return { uncommitted, unpulled, unpushed };
 }
 
+// --- File Mentions ---
+
+/**
+ * `@path` mentions of files inside `cwd`, which are sent as file references so the agent gets
+ * their contents. Mentions that don't name a file (emails, decorators, typos) stay plain text.
+ */
+async function findFileMentions(cwd: string, text: string): Promise<BackendFileReference[]> {
+  const root = resolve(cwd);
+  const references: BackendFileReference[] = [];
+  for (const match of text.matchAll(/(^|\s)@([^\s@]+)/g)) {
+    const start = match.index + match[1]!.length;
+    // Trailing punctuation usually ends the sentence rather than the path
+    for (const path of new Set([match[2]!, match[2]!.replace(/[.,;:!?)\]]+$/, "")])) {
+      const absolute = resolve(root, path);
+      if (!absolute.startsWith(root + sep)) continue;
+      const info = await stat(absolute).catch(() => null);
+      if (!info?.isFile()) continue;
+      references.push({ path: relative(root, absolute), start, end: start + 1 + path.length });
+      break;
+    }
+  }
+  return references;
+}
+
 // --- Callbacks ---
 
 type MessageCallback = (msg: AgentMessage, session: AgentSession) => void | Promise<void>;
@@ -112,6 +176,21 @@ function fireCallback(cb: () => void | Promise<void>, label: string): void {
   }
 }
 
+// What decides a permission request the user hasn't answered, read fresh for each request
+type PermissionSettings = { policy: LoadedPolicyRule[]; timeout: PermissionTimeout };
+
+// How a message typed into the session is delivered to its runtime
+type OutgoingMessage =
+  | { type: "prompt" }
+  | { type: "command"; name: string; args: string }
+  | { type: "shell"; command: string };
+
+// --- Permission Rule Helpers ---
+
+function formatPermissionRule(rule: PermissionRule): string {
+  return rule.patterns.length > 0 ? `${rule.permission} ${rule.patterns.join(", ")}` : rule.permission;
+}
+
 // --- Message Windowing Helper ---
 
 /**
@@ -119,6 +198,7 @@ function fireCallback(cb: () => void | Promise<void>, label: string): void {
  * - System messages (critical for context)
  * - Messages with pending permissions/questions/plan approvals
  * - The most recent messages
+ * Only the in-memory copy is trimmed; the store keeps the full transcript for paging.
  */
 function trimMessageWindow(messages: AgentMessage[]): AgentMessage[] {
   if (messages.length <= MESSAGE_WINDOW_LIMIT) {
@@ -178,16 +258,37 @@ export class AgentManager {
   private launchableRepos: LaunchableRepo[] = [];
   private persistTimers = new Map<string, ReturnType<typeof setTimeout>>();
   private cachedPendingCounts: Map<string, RepoGitStatus> = new Map();
-  private opencodeRuntime: OpencodeRuntime | null = null;
-  private opencodeRuntimePromise: Promise<OpencodeRuntime> | null = null;
-  private opencodeEventLoop: Promise<void> | null = null;
-  private opencodeParts = new Map<string, OpenCodePart[]>();
-  private opencodeMessageRoles = new Map<string, string>();
-  private opencodeErroredSessions = new Set<string>();
-
-  constructor(onMessage: MessageCallback, onSessionChange: SessionChangeCallback) {
+  private backends = new Map<AgentBackend, AgentBackendAdapter>();
+  private opencodeRuntimeStatus: OpencodeRuntimeStatus = { connected: true };
+  private erroredSessions = new Set<string>();
+  private compactingSessions = new Set<string>();
+  // Restored sessions not yet reconciled with their runtime, and the reconciles in flight
+  private unsyncedSessions = new Set<string>();
+  private restoredSyncs = new Map<string, Promise<boolean>>();
+  // Keyed by OpenCode session id so repeated imports while the snapshot loads share one session
+  private adoptingSessions = new Map<string, Promise<AgentSession>>();
+  // Keyed by backend, provider and model; filled whenever a backend lists its models
+  private contextLimits = new Map<string, number>();
+  private retentionSweeper: ReturnType<typeof setInterval> | null = null;
+  private permissionRules: PermissionRule[] = [];
+
+  /** `opencodeServerOptions` (from CLI flags) take precedence over the config file. */
+  constructor(onMessage: MessageCallback, onSessionChange: SessionChangeCallback, opencodeServerOptions: OpencodeServerOptions = {}) {
     this.onMessage = onMessage;
     this.onSessionChange = onSessionChange;
+    this.registerBackend(new OpencodeBackend(opencodeServerOptions));
+    this.registerBackend(new DemoBackend());
+  }
+
+  private registerBackend(backend: AgentBackendAdapter): void {
+    this.backends.set(backend.id, backend);
+    backend.subscribe((event) => this.handleBackendEvent(backend, event));
+  }
+
+  private getBackend(session: AgentSession): AgentBackendAdapter {
+    const backend = this.backends.get(session.backend);
+    if (!backend) throw new Error(`Unknown agent backend: ${session.backend}`);
+    return backend;
   }
 
   private fireOnMessage(msg: AgentMessage, session: AgentSession): void {
@@ -211,36 +312,42 @@ export class AgentManager {
     return sessionId ? this.sessions.get(sessionId) : undefined;
   }
 
-  private unwrapData<T>(value: T | { data: T }): T {
-    if (value && typeof value === "object" && "data" in value) {
-      return value.data;
-    }
-    return value;
-  }
-
   // --- Initialization ---
 
   async init(): Promise<void> {
     await ensureDataDir();
     await this.scanLaunchableRepos();
-    const restored = await loadAllSessions();
+    this.permissionRules = await loadPermissionRules();
+    const restored = await loadAllSessions(MESSAGE_WINDOW_LIMIT);
     for (const session of restored) {
-      session.backend = "opencode";
+      // Sessions from a backend that's no longer registered fall back to OpenCode
+      if (!this.backends.has(session.backend)) session.backend = "opencode";
       session.model = session.model || DEFAULT_OPENCODE_MODEL;
       session.modelProviderId = session.modelProviderId || DEFAULT_OPENCODE_PROVIDER;
+      // The store keeps the full transcript; only the recent window lives in memory
+      session.messages = trimMessageWindow(session.messages);
       this.lastUsedSelection = {
+        backend: session.backend,
         model: session.model,
         providerId: session.modelProviderId,
       };
       this.sessions.set(session.id, session);
       if (session.sdkSessionId) {
         this.sdkSessionLookup.set(session.sdkSessionId, session.id);
+        if (this.backends.get(session.backend)?.getSnapshot) this.unsyncedSessions.add(session.id);
       }
     }
     if (restored.length > 0) {
       console.log(`[persistence] restored ${restored.length} session(s)`);
       this.fireOnSessionChange();
     }
+    this.startRetentionSweeper();
+    if (this.unsyncedSessions.size > 0) {
+      // Don't hold up startup on the runtime; sessions opened first still sync on demand
+      this.resyncRestoredSessions().catch((err) =>
+        console.warn("[resync] startup resync failed:", err)
+      );
+    }
   }
 
   // --- Persistence ---
@@ -271,9 +378,21 @@ export class AgentManager {
     this.persistTimers.set(sessionId, timer);
   }
 
+  private async flushPersist(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    const pending = this.persistTimers.get(sessionId);
+    if (pending) {
+      clearTimeout(pending);
+      this.persistTimers.delete(sessionId);
+    }
+    await saveSession(session);
+  }
+
   // --- Public API ---
 
-  private lastUsedSelection: { model: string; providerId?: string } = {
+  private lastUsedSelection: { backend: AgentBackend; model: string; providerId?: string } = {
+    backend: "opencode",
     model: DEFAULT_OPENCODE_MODEL,
     providerId: DEFAULT_OPENCODE_PROVIDER,
   };
@@ -281,6 +400,7 @@ export class AgentManager {
   createSession(
     cwd: string,
     options?: {
+      backend?: AgentBackend;
       model?: string;
       modelProviderId?: string;
       permissionMode?: PermissionMode;
@@ -289,12 +409,14 @@ export class AgentManager {
     const id = crypto.randomUUID();
     const repoName = basename(cwd);
     const defaultSelection = this.lastUsedSelection;
+    const backend = options?.backend || defaultSelection.backend;
+    if (!this.backends.has(backend)) throw new Error(`Unknown agent backend: ${backend}`);
     const sessionModel = options?.model || defaultSelection.model;
     const modelProviderId = options?.modelProviderId || defaultSelection.providerId || DEFAULT_OPENCODE_PROVIDER;
 
     const session: AgentSession = {
       id,
-      backend: "opencode",
+      backend,
       sdkSessionId: "",
       repoName,
       cwd,
@@ -327,6 +449,7 @@ export class AgentManager {
     cwd: string,
     prompt: string,
     options?: {
+      backend?: AgentBackend;
       model?: string;
       modelProviderId?: string;
       permissionMode?: PermissionMode;
@@ -341,6 +464,7 @@ export class AgentManager {
   async sendMessage(sessionId: string, text: string, attachments?: { name: string; type: string; size: number; data: string }[]): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) throw new Error("Session not found");
+    await this.syncRestoredSession(sessionId);
 
     if (session.status === "streaming" || session.status === "starting") {
       throw new Error(`Session is busy (status: ${session.status})`);
@@ -349,27 +473,38 @@ export class AgentManager {
       throw new Error("Session has been stopped");
     }
 
-    const userAttachments: import("./types.ts").Attachment[] = [];
-    if (attachments && attachments.length > 0) {
-      for (const att of attachments) {
-        userAttachments.push({
-          id: crypto.randomUUID(),
-          name: att.name,
-          type: att.type,
-          size: att.size,
-          data: att.data,
-        });
-      }
+    const backend = this.getBackend(session);
+    const outgoing = await this.parseOutgoingMessage(session, backend, text);
+    const files: BackendFile[] = (attachments ?? []).map((att) => ({ name: att.name, mime: att.type, data: att.data }));
+    if (files.length > 0 && outgoing.type !== "prompt") {
+      throw new Error("Files can only be attached to a prompt, not to a command");
     }
+    backend.validateAttachments?.(files);
+    const references = outgoing.type === "prompt" ? await findFileMentions(session.cwd, text) : [];
 
+    // The bytes go to the attachment store; the message keeps what the transcript shows
+    const userAttachments: Attachment[] = [];
     if (attachments && attachments.length > 0) {
-      throw new Error("OpenCode sessions do not support file attachments yet");
+      await this.flushPersist(sessionId);
+      for (const att of attachments) {
+        const id = crypto.randomUUID();
+        await saveAttachment(sessionId, id, att.type, Buffer.from(att.data, "base64"));
+        userAttachments.push({ id, name: att.name, type: att.type, size: att.size });
+      }
     }
 
-    const rawRequest = {
-      backend: "opencode",
-      parts: text?.trim() ? [{ type: "text", text }] : [],
-    };
+    const rawRequest = outgoing.type === "command"
+      ? { backend: session.backend, command: outgoing.name, arguments: outgoing.args }
+      : outgoing.type === "shell"
+        ? { backend: session.backend, shell: outgoing.command }
+        : {
+          backend: session.backend,
+          parts: [
+            ...(text?.trim() ? [{ type: "text", text }] : []),
+            ...files.map((file) => ({ type: "file", filename: file.name, mime: file.mime })),
+            ...references.map((reference) => ({ type: "file", path: reference.path })),
+          ],
+        };
 
     const userMsg: AgentMessage = {
       id: crypto.randomUUID(),
@@ -381,13 +516,16 @@ export class AgentManager {
       rawRequest,
     };
     this.pushMessage(session, userMsg);
+    // The runtime discards rewound turns once the session moves on, so they can't be restored anymore
+    session.revert = undefined;
     session.lastMessagePreview = text.slice(0, 80);
     session.lastActivity = new Date();
     session.turnStartedAt = session.lastActivity;
     session.status = "streaming";
-    this.opencodeErroredSessions.delete(session.id);
+    this.erroredSessions.delete(session.id);
 
     this.lastUsedSelection = {
+      backend: session.backend,
       model: session.model,
       providerId: session.modelProviderId,
     };
@@ -396,7 +534,7 @@ export class AgentManager {
     this.fireOnMessage(userMsg, session);
     this.fireOnSessionChange();
     try {
-      await this.sendOpencodeMessage(sessionId, session, text);
+      await this.sendBackendMessage(session, backend, text, outgoing, files, references);
     } catch (err) {
       session.status = "error";
       session.turnStartedAt = undefined;
@@ -415,45 +553,69 @@ export class AgentManager {
     }
   }
 
-  private async sendOpencodeMessage(sessionId: string, session: AgentSession, text: string): Promise<void> {
-    const runtime = await this.ensureOpencodeRuntime();
+  private async sendBackendMessage(
+    session: AgentSession,
+    backend: AgentBackendAdapter,
+    text: string,
+    outgoing: OutgoingMessage,
+    files: BackendFile[],
+    references: BackendFileReference[],
+  ): Promise<void> {
     if (!session.sdkSessionId) {
-      const createdResponse = await runtime.client.session.create({
-        query: { directory: session.cwd },
-        body: { title: session.repoName },
-        responseStyle: "data",
-        throwOnError: true,
-      });
-      const created = this.unwrapData(createdResponse);
-      this.setSdkSessionId(session, created.id);
-      session.lastActivity = new Date(created.time.updated);
-      this.persistSession(sessionId, true);
+      const created = await backend.createSession(session.cwd, session.repoName);
+      this.setSdkSessionId(session, created.sdkSessionId);
+      session.lastActivity = created.updatedAt;
+      this.persistSession(session.id, true);
+    }
+    if (outgoing.type === "command" && backend.runCommand) {
+      await backend.runCommand(session, outgoing.name, outgoing.args);
+    } else if (outgoing.type === "shell" && backend.runShell) {
+      await backend.runShell(session, outgoing.command);
+    } else {
+      await backend.prompt(session, text, files, references);
     }
+  }
 
-    await runtime.client.session.promptAsync({
-      path: { id: session.sdkSessionId },
-      query: { directory: session.cwd },
-      body: {
-        model: {
-          providerID: session.modelProviderId || DEFAULT_OPENCODE_PROVIDER,
-          modelID: session.model,
-        },
-        agent: this.getOpencodeAgentForMode(session.permissionMode),
-        parts: text?.trim() ? [{ type: "text", text }] : [],
-      },
-      responseStyle: "data",
-      throwOnError: true,
-    });
+  /**
+   * `!cmd` runs a shell command in the session. `/name args` runs a runtime command when the
+   * runtime lists `name`. Anything else is sent as a prompt.
+   */
+  private async parseOutgoingMessage(
+    session: AgentSession,
+    backend: AgentBackendAdapter,
+    text: string,
+  ): Promise<OutgoingMessage> {
+    const trimmed = text.trim();
+    if (trimmed.startsWith("!")) {
+      if (!backend.runShell) throw new Error(`${backend.label} sessions can't run shell commands`);
+      const command = trimmed.slice(1).trim();
+      if (!command) throw new Error("Type a shell command after !");
+      return { type: "shell", command };
+    }
+
+    const match = /^\/(\S+)(?:\s+([\s\S]*))?$/.exec(trimmed);
+    if (!match || !backend.runCommand || !backend.listCommands) return { type: "prompt" };
+    const commands = await backend.listCommands(session.cwd);
+    if (!commands.some((command) => command.name === match[1])) return { type: "prompt" };
+    return { type: "command", name: match[1]!, args: (match[2] ?? "").trim() };
   }
 
-  private getOpencodeAgentForMode(mode: PermissionMode): "plan" | "build" {
-    if (mode === "plan" || mode === "default") {
-      return "plan";
-    }
-    return "build";
+  async findFiles(sessionId: string, query: string): Promise<string[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error("Session not found");
+    const backend = this.getBackend(session);
+    return backend.findFiles ? backend.findFiles(session.cwd, query) : [];
   }
 
-  respondToPermission(sessionId: string, allow: boolean, message?: string, toolUseId?: string): void {
+  async listCommands(sessionId: string): Promise<BackendCommand[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error("Session not found");
+    const backend = this.getBackend(session);
+    return backend.listCommands ? backend.listCommands(session.cwd) : [];
+  }
+
+  /** `always` approves the request and remembers it as a rule for the session's repo. */
+  respondToPermission(sessionId: string, allow: boolean, message?: string, toolUseId?: string, always = false): void {
     const session = this.sessions.get(sessionId);
     if (!session) return;
 
@@ -476,20 +638,67 @@ export class AgentManager {
     clearTimeout(pending.timeoutId);
 
     // Update the inline permission message to show resolved state
+    const remember = allow && always;
     const permMsg = session.messages.find(m => m.id === `perm-${pending.toolUseId}`);
     if (permMsg?.permissionData) {
       permMsg.permissionData.resolved = allow ? "allowed" : "denied";
+      if (remember) permMsg.permissionData.decidedBy = "Always allowed in this repo";
       this.fireOnMessage(permMsg, session);
     }
 
     session.pendingPermissions.delete(pending.toolUseId);
+    if (remember) this.rememberPermission(session, pending);
 
     // Only transition to streaming if no more pending permissions/questions/plan approvals
     this.resumeIfNoPending(session);
     this.fireOnSessionChange();
 
-    this.resolveOpencodePermission(session, pending.toolUseId, allow).catch((err) =>
-      console.warn(`[opencode] permission reply failed:`, err)
+    const reply: PermissionReply = remember ? "always" : allow ? "once" : "reject";
+    this.getBackend(session).replyToPermission(session, pending.toolUseId, reply).catch((err) =>
+      console.warn(`[${session.backend}] permission reply failed:`, err)
+    );
+  }
+
+  // --- Permission Rules ---
+
+  getPermissionRules(cwd?: string): PermissionRule[] {
+    return this.permissionRules.filter((rule) => !cwd || rule.cwd === cwd);
+  }
+
+  async revokePermissionRule(ruleId: string): Promise<boolean> {
+    const index = this.permissionRules.findIndex((rule) => rule.id === ruleId);
+    if (index === -1) return false;
+    this.permissionRules.splice(index, 1);
+    await deletePermissionRule(ruleId);
+    return true;
+  }
+
+  private rememberPermission(session: AgentSession, pending: PendingPermission): void {
+    const { permission, patterns } = describePermission(pending.toolInput);
+    if (this.findPermissionRule(session.cwd, pending.toolInput)) return;
+    const rule: PermissionRule = {
+      id: crypto.randomUUID(),
+      cwd: session.cwd,
+      repoName: session.repoName,
+      permission,
+      patterns,
+      title: pending.toolName,
+      createdAt: new Date().toISOString(),
+    };
+    this.permissionRules.push(rule);
+    savePermissionRule(rule).catch((err) =>
+      console.warn(`[persistence] failed to save permission rule for ${session.repoName}:`, err)
+    );
+  }
+
+  private findPermissionRule(cwd: string, toolInput: Record<string, unknown>): PermissionRule | undefined {
+    const { permission, patterns } = describePermission(toolInput);
+    return this.permissionRules.find((rule) =>
+      rule.cwd === cwd
+      && rule.permission === permission
+      // A rule without patterns only covers requests without patterns
+      && (patterns.length > 0 || rule.patterns.length === 0)
+      && patterns.every((pattern) => rule.patterns.includes(pattern))
     );
   }
 
@@ -609,8 +818,8 @@ export class AgentManager {
     session.hooksRunning = false;
 
     if (session.sdkSessionId) {
-      this.abortOpencodeSession(session).catch((err) =>
-        console.warn(`[opencode] abort failed:`, err)
+      this.getBackend(session).abort(session).catch((err) =>
+        console.warn(`[${session.backend}] abort failed:`, err)
       );
     }
 
@@ -627,6 +836,27 @@ export class AgentManager {
     this.fireOnSessionChange();
   }
 
+  async listAgents(sessionId: string): Promise<BackendAgent[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error("Session not found");
+    const backend = this.getBackend(session);
+    if (!backend.listAgents) throw new Error(`${backend.label} sessions can't switch agents`);
+    return backend.listAgents(session.cwd);
+  }
+
+  /** Pins the runtime agent used for later turns; `null` goes back to following the permission mode. */
+  async setSessionAgent(sessionId: string, agent: string | null): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error("Session not found");
+    if (agent !== null) {
+      const agents = await this.listAgents(sessionId);
+      if (!agents.some((candidate) => candidate.name === agent)) throw new Error(`Unknown agent: ${agent}`);
+    }
+    session.agent = agent ?? undefined;
+    this.persistSession(sessionId, true);
+    this.fireOnSessionChange();
+  }
+
   async setPermissionMode(sessionId: string, mode: PermissionMode): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) throw new Error("Session not found");
@@ -637,7 +867,7 @@ export class AgentManager {
 
   setSessionModel(
     sessionId: string,
-    options: { model: string; modelProviderId?: string },
+    options: { backend?: AgentBackend; model: string; modelProviderId?: string },
   ): void {
     const session = this.sessions.get(sessionId);
     if (!session) throw new Error("Session not found");
@@ -645,9 +875,14 @@ export class AgentManager {
     if (session.messages.length > 0) {
       throw new Error("Cannot change model after conversation has started");
     }
+    if (options.backend) {
+      if (!this.backends.has(options.backend)) throw new Error(`Unknown agent backend: ${options.backend}`);
+      session.backend = options.backend;
+    }
     session.model = options.model;
     session.modelProviderId = options.modelProviderId || DEFAULT_OPENCODE_PROVIDER;
     this.lastUsedSelection = {
+      backend: session.backend,
       model: session.model,
       providerId: session.modelProviderId,
     };
@@ -668,7 +903,10 @@ export class AgentManager {
       this.persistTimers.delete(sessionId);
     }
 
-    deleteSessionFile(sessionId);
+    // Flush the latest state before archiving so the transcript is complete
+    saveSession(session)
+      .then(() => archiveSession(sessionId))
+      .catch((err) => console.warn(`[persistence] archive failed for ${sessionId}:`, err));
     this.sessions.delete(sessionId);
     if (session.sdkSessionId) {
       this.sdkSessionLookup.delete(session.sdkSessionId);
@@ -678,10 +916,763 @@ export class AgentManager {
     return true;
   }
 
+  // --- Retention ---
+
+  private startRetentionSweeper(): void {
+    if (this.retentionSweeper) return;
+    const sweep = () => {
+      this.sweepRetention().catch((err) => console.warn("[persistence] retention sweep failed:", err));
+    };
+    this.retentionSweeper = setInterval(sweep, RETENTION_SWEEP_INTERVAL_MS);
+    sweep();
+  }
+
+  /** Applies the configured retention policy and returns the sessions it pruned. */
+  async sweepRetention(): Promise<{ sessionId: string; reason: PruneReason }[]> {
+    const policy = await getRetentionPolicy();
+    if (!hasRetentionLimits(policy)) return [];
+
+    const { sessions: usage } = await getStorageUsage();
+    const selected = selectSessionsToPrune(usage, policy, this.getBusySessionIds());
+    if (selected.size === 0) return [];
+
+    const pruned = await this.pruneSessions([...selected.keys()], RETENTION_COMPACT_MIN_FREE_BYTES);
+    if (pruned.length === 0) return [];
+    console.log(`[persistence] retention pruned ${pruned.length} session(s)`);
+    return pruned.map((sessionId) => ({ sessionId, reason: selected.get(sessionId)! }));
+  }
+
+  /**
+   * Permanently deletes sessions (live or archived) and compacts the store once at least
+   * `compactMinFreeBytes` are free. Sessions that are mid-turn or waiting on input are skipped.
+   */
+  async pruneSessions(sessionIds: string[], compactMinFreeBytes = 0): Promise<string[]> {
+    const busy = this.getBusySessionIds();
+    const pruned: string[] = [];
+    for (const sessionId of sessionIds) {
+      if (busy.has(sessionId)) continue;
+      const session = this.sessions.get(sessionId);
+      if (session) {
+        const timer = this.persistTimers.get(sessionId);
+        if (timer) {
+          clearTimeout(timer);
+          this.persistTimers.delete(sessionId);
+        }
+        this.sessions.delete(sessionId);
+        if (session.sdkSessionId) {
+          this.sdkSessionLookup.delete(session.sdkSessionId);
+        }
+      }
+      await deleteSessionFile(sessionId);
+      pruned.push(sessionId);
+    }
+
+    if (pruned.length > 0) {
+      await compactStore(compactMinFreeBytes);
+      this.fireOnSessionChange();
+    }
+    return pruned;
+  }
+
+  async getStorageUsage(): Promise<{ sessions: SessionStorageUsage[]; fileBytes: number; policy: RetentionPolicy }> {
+    await Promise.all([...this.persistTimers.keys()].map((sessionId) => this.flushPersist(sessionId)));
+    const [usage, policy] = await Promise.all([getStorageUsage(), getRetentionPolicy()]);
+    return { ...usage, policy };
+  }
+
+  private getBusySessionIds(): Set<string> {
+    const busy = new Set<string>();
+    for (const session of this.sessions.values()) {
+      if (session.status === "streaming" || session.status === "starting" || session.status === "needs_input") {
+        busy.add(session.id);
+      }
+    }
+    return busy;
+  }
+
+  // --- Storage Health ---
+
+  getStorageWarnings(): string[] {
+    return getStorageWarnings();
+  }
+
+  dismissStorageWarnings(): void {
+    dismissStorageWarnings();
+  }
+
+  // --- Archive ---
+
+  async getArchivedSessions(): Promise<ArchivedSessionSummary[]> {
+    return listArchivedSessions();
+  }
+
+  async restoreSession(sessionId: string): Promise<AgentSession | null> {
+    const existing = this.sessions.get(sessionId);
+    if (existing) return existing;
+
+    const session = await restoreArchivedSession(sessionId);
+    if (!session) return null;
+    if (!this.backends.has(session.backend)) session.backend = "opencode";
+    session.model = session.model || DEFAULT_OPENCODE_MODEL;
+    session.modelProviderId = session.modelProviderId || DEFAULT_OPENCODE_PROVIDER;
+    session.messages = trimMessageWindow(session.messages);
+    this.sessions.set(session.id, session);
+    if (session.sdkSessionId) {
+      this.sdkSessionLookup.set(session.sdkSessionId, session.id);
+    }
+
+    await this.scanLaunchableRepos();
+    this.fireOnSessionChange();
+    return session;
+  }
+
+  async deleteArchivedSession(sessionId: string): Promise<boolean> {
+    if (this.sessions.has(sessionId)) return false;
+    const archived = await listArchivedSessions();
+    if (!archived.some((summary) => summary.id === sessionId)) return false;
+    await deleteSessionFile(sessionId);
+    return true;
+  }
+
+  // --- Export / Import ---
+
+  /** The full persisted transcript with live in-memory copies taking precedence. */
+  async getFullTranscript(sessionId: string): Promise<AgentMessage[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return [];
+    await this.flushPersist(sessionId);
+    const stored = await loadSession(sessionId);
+    if (!stored) return session.messages;
+    const live = new Map(session.messages.map((msg) => [msg.id, msg]));
+    return stored.messages.map((msg) => live.get(msg.id) ?? msg);
+  }
+
+  /** A live or archived session with its full transcript; archived ones are read straight from the store. */
+  async getExportableSession(sessionId: string): Promise<{ session: AgentSession; messages: AgentMessage[] } | null> {
+    if (this.sessions.has(sessionId)) {
+      return { session: this.sessions.get(sessionId)!, messages: await this.getFullTranscript(sessionId) };
+    }
+    const stored = await loadSession(sessionId);
+    return stored ? { session: stored, messages: stored.messages } : null;
+  }
+
+  async exportSessionBundle(sessionId: string): Promise<SessionExportBundle | null> {
+    const exportable = await this.getExportableSession(sessionId);
+    if (!exportable) return null;
+    const { session, messages: transcript } = exportable;
+    // Bundles are self-contained, so attachment bytes travel inline
+    const messages = await Promise.all(transcript.map(async (msg) => {
+      if (!msg.attachments?.some((att) => !att.data)) return msg;
+      const attachments = await Promise.all(msg.attachments.map(async (att) => {
+        if (att.data) return att;
+        const stored = await loadAttachment(att.id);
+        return stored ? { ...att, data: Buffer.from(stored.data).toString("base64") } : att;
+      }));
+      return { ...msg, attachments };
+    }));
+    return createSessionBundle({ ...session, messages });
+  }
+
+  /**
+   * Restores a session from an export bundle. A bundle whose id is already taken is
+   * imported as a copy with a fresh id, detached from the original runtime session.
+   */
+  async importSessionBundle(bundle: unknown): Promise<AgentSession> {
+    const data = parseSessionBundle(bundle);
+    const session = deserializeSession(data);
+    if (!(await isInReposDir(session.cwd))) {
+      throw new Error("The bundle's cwd must be inside the repos directory");
+    }
+    const cwdStat = await stat(session.cwd).catch(() => null);
+    if (!cwdStat?.isDirectory()) {
+      throw new Error(`The bundle's cwd ${session.cwd} is not a directory here`);
+    }
+
+    if (this.sessions.has(session.id) || (await hasStoredSession(session.id))) {
+      session.id = crypto.randomUUID();
+      session.sdkSessionId = "";
+      for (const msg of session.messages) {
+        if (msg.sessionId) msg.sessionId = session.id;
+      }
+    }
+    if (session.sdkSessionId && this.sdkSessionLookup.has(session.sdkSessionId)) {
+      session.sdkSessionId = "";
+    }
+
+    if (!this.backends.has(session.backend)) session.backend = "opencode";
+    session.repoName = session.repoName || basename(session.cwd);
+    session.model = session.model || DEFAULT_OPENCODE_MODEL;
+    session.modelProviderId = session.modelProviderId || DEFAULT_OPENCODE_PROVIDER;
+
+    // Inline bytes move to the attachment store under fresh ids, so they can't replace another session's
+    const inlineAttachments: { id: string; type: string; data: string }[] = [];
+    for (const msg of session.messages) {
+      msg.attachments = msg.attachments?.map(({ data, ...att }) => {
+        if (!data) return att;
+        const id = crypto.randomUUID();
+        inlineAttachments.push({ id, type: att.type, data });
+        return { ...att, id };
+      });
+    }
+    await saveSession(session);
+    for (const att of inlineAttachments) {
+      await saveAttachment(session.id, att.id, att.type, Buffer.from(att.data, "base64"));
+    }
+
+    session.messages = trimMessageWindow(session.messages);
+    this.sessions.set(session.id, session);
+    if (session.sdkSessionId) {
+      this.sdkSessionLookup.set(session.sdkSessionId, session.id);
+    }
+    this.fireOnSessionChange();
+    return session;
+  }
+
+  // --- OpenCode Session Adoption ---
+
+  private getOpencodeBackend(): AgentBackendAdapter {
+    return this.backends.get("opencode")!;
+  }
+
+  /**
+   * Lists the runtime's sessions for each launchable repo (or just `cwd`), marking the
+   * ones already shown in the dashboard.
+   */
+  async listOpencodeSessions(cwd?: string): Promise<OpencodeSessionSummary[]> {
+    const backend = this.getOpencodeBackend();
+    const directories = cwd ? [cwd] : this.launchableRepos.map((repo) => repo.path);
+    const seen = new Set<string>();
+
+    const perDirectory = await Promise.all(directories.map(async (directory) => {
+      try {
+        return { directory, sessions: await backend.listSessions!(directory) };
+      } catch (err) {
+        console.warn(`[opencode] failed to list sessions for ${directory}:`, err);
+        return { directory, sessions: [] };
+      }
+    }));
+
+    const summaries: OpencodeSessionSummary[] = [];
+    for (const { directory, sessions } of perDirectory) {
+      for (const remote of sessions) {
+        if (seen.has(remote.sdkSessionId)) continue;
+        seen.add(remote.sdkSessionId);
+        summaries.push({
+          sdkSessionId: remote.sdkSessionId,
+          title: remote.title,
+          directory,
+          repoName: basename(directory),
+          createdAt: remote.createdAt.toISOString(),
+          updatedAt: remote.updatedAt.toISOString(),
+          adoptedSessionId: this.sdkSessionLookup.get(remote.sdkSessionId),
+        });
+      }
+    }
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /** Creates a dashboard session for an OpenCode session started elsewhere and rebuilds its transcript. */
+  async adoptOpencodeSession(sdkSessionId: string, cwd: string): Promise<AgentSession> {
+    const existingId = this.sdkSessionLookup.get(sdkSessionId);
+    const existing = existingId ? this.sessions.get(existingId) : undefined;
+    if (existing) return existing;
+
+    const pending = this.adoptingSessions.get(sdkSessionId);
+    if (pending) return pending;
+
+    const adoption = this.importOpencodeSession(sdkSessionId, cwd)
+      .finally(() => this.adoptingSessions.delete(sdkSessionId));
+    this.adoptingSessions.set(sdkSessionId, adoption);
+    return adoption;
+  }
+
+  private async importOpencodeSession(sdkSessionId: string, cwd: string): Promise<AgentSession> {
+    const remote = await this.getOpencodeBackend().getSnapshot!(sdkSessionId, cwd);
+
+    const session = this.createSession(cwd, { backend: "opencode" });
+    this.setSdkSessionId(session, remote.sdkSessionId);
+    session.createdAt = remote.createdAt;
+    session.lastActivity = remote.updatedAt;
+    session.messages = this.buildTranscript(session, remote.messages);
+    const lastText = session.messages.findLast((msg) => msg.type === "assistant" && msg.text)?.text
+      ?? session.messages.findLast((msg) => msg.type === "user")?.text
+      ?? remote.title;
+    session.lastMessagePreview = (lastText ?? "").slice(0, 80);
+
+    await saveSession(session);
+    session.messages = trimMessageWindow(session.messages);
+    await this.scanLaunchableRepos();
+    this.fireOnSessionChange();
+    return session;
+  }
+
+  /** Converts a backend transcript into dashboard messages, adding each finished turn's usage to the session. */
+  private buildTranscript(session: AgentSession, entries: BackendTranscriptEntry[]): AgentMessage[] {
+    const messages: AgentMessage[] = [];
+    let turnStartedAt: Date | undefined;
+
+    for (const entry of entries) {
+      if (entry.role === "user") {
+        turnStartedAt = entry.createdAt;
+        messages.push({
+          id: entry.id,
+          type: "user",
+          timestamp: entry.createdAt,
+          userText: entry.text,
+          text: entry.text,
+          rawRequest: entry.raw,
+        });
+        continue;
+      }
+
+      const { message } = entry;
+      messages.push({
+        id: message.id,
+        type: "assistant",
+        timestamp: message.createdAt,
+        contentBlocks: message.contentBlocks,
+        text: this.joinTextBlocks(message.contentBlocks),
+        rawResponse: message.raw,
+      });
+      if (message.turn?.model) session.model = message.turn.model;
+      if (message.turn?.providerId) session.modelProviderId = message.turn.providerId;
+
+      if (message.turn?.completedAt || message.turn?.error) {
+        messages.push(this.createResultMessage(session, message.id, message.turn, turnStartedAt));
+      }
+    }
+
+    return messages;
+  }
+
+  private joinTextBlocks(blocks: ContentBlock[]): string {
+    return blocks
+      .filter((block) => block.type === "text" && block.text)
+      .map((block) => block.text!.trim())
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  // --- Compaction ---
+
+  /** Summarizes the session's history on its runtime and marks the point in the stream. */
+  async compactSession(sessionId: string, trigger: "manual" | "auto" = "manual"): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error("Session not found");
+    if (this.compactingSessions.has(sessionId)) throw new Error("Session is already being compacted");
+    if (session.status === "streaming" || session.status === "starting" || session.status === "needs_input") {
+      throw new Error("Wait for the current turn to finish before compacting");
+    }
+    if (!session.sdkSessionId) throw new Error("Session has not started on its runtime yet");
+    const backend = this.getBackend(session);
+    if (!backend.summarize) throw new Error(`${backend.label} sessions can't be compacted`);
+
+    const usedTokens = session.inputTokens - (session.compactedAtInputTokens ?? 0);
+    this.compactingSessions.add(sessionId);
+    session.status = "streaming";
+    session.turnStartedAt = new Date();
+    this.erroredSessions.delete(sessionId);
+    this.fireOnSessionChange();
+    try {
+      await backend.summarize(session);
+    } catch (err) {
+      session.status = "error";
+      session.turnStartedAt = undefined;
+      const errorMsg: AgentMessage = {
+        id: crypto.randomUUID(),
+        type: "result",
+        timestamp: new Date(),
+        text: `Error: compaction failed: ${err instanceof Error ? err.message : String(err)}`,
+        isError: true,
+      };
+      this.pushMessage(session, errorMsg);
+      this.persistSession(sessionId, true);
+      this.fireOnMessage(errorMsg, session);
+      this.fireOnSessionChange();
+      throw err;
+    } finally {
+      this.compactingSessions.delete(sessionId);
+    }
+
+    session.compactedAtInputTokens = session.inputTokens;
+    const marker: AgentMessage = {
+      id: crypto.randomUUID(),
+      type: "system",
+      timestamp: new Date(),
+      text: trigger === "auto"
+        ? `Conversation compacted automatically after ${usedTokens.toLocaleString()} input tokens`
+        : "Conversation compacted",
+      isCompaction: true,
+    };
+    this.pushMessage(session, marker);
+    if (session.status === "streaming") {
+      session.status = "idle";
+      session.turnStartedAt = undefined;
+    }
+    this.persistSession(sessionId, true);
+    this.fireOnMessage(marker, session);
+    this.fireOnSessionChange();
+  }
+
+  /** Runs after each turn; compacts once usage since the last compaction crosses the configured threshold. */
+  private async maybeAutoCompact(session: AgentSession): Promise<void> {
+    if (this.compactingSessions.has(session.id) || !this.getBackend(session).summarize) return;
+    const threshold = await getAutoCompactThreshold();
+    if (threshold === undefined) return;
+    const contextLimit = await this.getContextLimit(session);
+    if (!contextLimit) return;
+    const usedTokens = session.inputTokens - (session.compactedAtInputTokens ?? 0);
+    if (usedTokens < threshold * contextLimit || session.status !== "idle") return;
+
+    console.log(`[${session.backend}] auto-compacting ${session.id} (${usedTokens} of ${contextLimit} tokens)`);
+    await this.compactSession(session.id, "auto");
+  }
+
+  private async getContextLimit(session: AgentSession): Promise<number | undefined> {
+    const key = `${session.backend}:${session.modelProviderId ?? ""}/${session.model}`;
+    if (!this.contextLimits.has(key)) {
+      try {
+        this.rememberContextLimits(await this.getBackend(session).listModels());
+      } catch (err) {
+        console.warn(`[${session.backend}] couldn't list models for the context limit:`, err);
+      }
+    }
+    return this.contextLimits.get(key);
+  }
+
+  private rememberContextLimits(models: ModelOption[]): void {
+    for (const model of models) {
+      if (!model.contextLimit) continue;
+      this.contextLimits.set(`${model.backend}:${model.providerId ?? ""}/${model.model}`, model.contextLimit);
+    }
+  }
+
+  // --- Fork ---
+
+  /**
+   * Starts a new session in the same repo from the runtime's history up to `messageId`. Turns
+   * are copied whole, so forking from a user message branches just before it and returns its
+   * text for editing; forking from anything else keeps the rest of that turn.
+   */
+  async forkSession(sessionId: string, messageId: string): Promise<{ session: AgentSession; text: string }> {
+    const parent = this.sessions.get(sessionId);
+    if (!parent) throw new Error("Session not found");
+    if (parent.status === "streaming" || parent.status === "starting") {
+      throw new Error("Wait for the current turn to finish before forking");
+    }
+    if (!parent.sdkSessionId) throw new Error("Session has not started on its runtime yet");
+    const backend = this.getBackend(parent);
+    if (!backend.fork || !backend.getSnapshot) throw new Error(`${backend.label} sessions can't be forked`);
+
+    const transcript = await this.getFullTranscript(sessionId);
+    const index = transcript.findIndex((msg) => msg.id === messageId);
+    if (index < 0) throw new Error("Message not found");
+    const target = transcript[index]!;
+
+    // The runtime copies everything before the given message, so cut at the next prompt
+    const nextUserIndex = transcript.findIndex((msg, i) => i >= index && msg.type === "user");
+    let beforeSdkMessageId: string | undefined;
+    if (nextUserIndex >= 0) {
+      const snapshot = await backend.getSnapshot(parent.sdkSessionId, parent.cwd);
+      beforeSdkMessageId = this.findRuntimeUserMessageId(transcript.slice(0, nextUserIndex + 1), snapshot.messages);
+      if (!beforeSdkMessageId) throw new Error("The runtime has no copy of this message; try Resync first");
+    }
+
+    const forked = await backend.fork(parent, beforeSdkMessageId);
+    const remote = await backend.getSnapshot(forked.sdkSessionId, parent.cwd);
+
+    const session = this.createSession(parent.cwd, {
+      backend: parent.backend,
+      model: parent.model,
+      modelProviderId: parent.modelProviderId,
+      permissionMode: parent.permissionMode,
+    });
+    this.setSdkSessionId(session, forked.sdkSessionId);
+    session.forkedFrom = { sessionId: parent.id, messageId };
+    session.agent = parent.agent;
+    session.lastActivity = forked.updatedAt;
+    session.messages = this.buildTranscript(session, remote.messages);
+    session.lastMessagePreview = (session.messages.findLast((msg) => msg.text)?.text ?? "").slice(0, 80);
+
+    await saveSession(session);
+    session.messages = trimMessageWindow(session.messages);
+    this.fireOnSessionChange();
+    return { session, text: target.type === "user" ? target.text ?? "" : "" };
+  }
+
+  // --- Rewind ---
+
+  /**
+   * Reverts the session to just before user message `messageId`: the runtime undoes the file
+   * changes from that turn onwards and the rewound messages move to `session.revert` until
+   * undone. Returns the rewound prompt so it can be edited and sent again.
+   */
+  async rewindSession(sessionId: string, messageId: string): Promise<{ text: string }> {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error("Session not found");
+    if (session.status === "streaming" || session.status === "starting" || session.status === "needs_input") {
+      throw new Error("Stop the agent before rewinding");
+    }
+    if (!session.sdkSessionId) throw new Error("Session has not started on its runtime yet");
+    const backend = this.getBackend(session);
+    if (!backend.revert || !backend.getSnapshot) throw new Error(`${backend.label} sessions can't be rewound`);
+
+    const transcript = await this.getFullTranscript(sessionId);
+    const index = transcript.findIndex((msg) => msg.id === messageId && msg.type === "user");
+    if (index < 0) throw new Error("Message not found");
+
+    const snapshot = await backend.getSnapshot(session.sdkSessionId, session.cwd);
+    const sdkMessageId = this.findRuntimeUserMessageId(transcript.slice(0, index + 1), snapshot.messages);
+    if (!sdkMessageId) throw new Error("The runtime has no copy of this message; try Resync first");
+    await backend.revert(session, sdkMessageId);
+
+    const rewound = transcript.slice(index);
+    const kept = transcript.slice(0, index);
+    await deleteStoredMessages(sessionId, rewound.map((msg) => msg.id));
+    session.revert = {
+      messageId,
+      sdkMessageId,
+      revertedAt: new Date().toISOString(),
+      // Rewinding further keeps the earlier stash: the runtime's undo restores everything at once
+      messages: [...rewound.map(serializeMessage), ...(session.revert?.messages ?? [])],
+    };
+    session.messages = trimMessageWindow(kept);
+    session.lastMessagePreview = kept.findLast((msg) => msg.text)?.text?.slice(0, 80) ?? "";
+    if (session.status === "error") session.status = "idle";
+    this.erroredSessions.delete(session.id);
+
+    await this.flushPersist(sessionId);
+    this.fireOnSessionChange();
+    return { text: transcript[index]!.text ?? "" };
+  }
+
+  /**
+   * `transcript` ends with the user message being looked up. Messages adopted from the runtime
+   * keep its ids; ones sent from here are paired with the runtime's copies by text, in order.
+   */
+  private findRuntimeUserMessageId(transcript: AgentMessage[], entries: BackendTranscriptEntry[]): string | undefined {
+    const remoteUsers = entries.flatMap((entry) => entry.role === "user" ? [entry] : []);
+    const target = transcript[transcript.length - 1]!;
+    if (remoteUsers.some((entry) => entry.id === target.id)) return target.id;
+
+    let cursor = 0;
+    let matched: string | undefined;
+    for (const msg of transcript) {
+      if (msg.type !== "user") continue;
+      const text = (msg.text ?? "").trim();
+      const matchIndex = remoteUsers.findIndex((entry, i) => i >= cursor && entry.text.trim() === text);
+      matched = matchIndex >= 0 ? remoteUsers[matchIndex]!.id : undefined;
+      if (matchIndex >= 0) cursor = matchIndex + 1;
+    }
+    return matched;
+  }
+
+  async undoRewind(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error("Session not found");
+    const revert = session.revert;
+    if (!revert) throw new Error("Session has nothing to undo");
+    if (session.status === "streaming" || session.status === "starting" || session.status === "needs_input") {
+      throw new Error("Stop the agent before undoing the rewind");
+    }
+    const backend = this.getBackend(session);
+    if (!backend.unrevert) throw new Error(`${backend.label} sessions can't be rewound`);
+
+    await backend.unrevert(session);
+
+    const transcript = await this.getFullTranscript(sessionId);
+    const restored = revert.messages.map(deserializeMessage);
+    session.revert = undefined;
+    // Saved untrimmed so the restored tail is written back to the store in full
+    session.messages = [...transcript, ...restored];
+    session.lastMessagePreview = session.messages.findLast((msg) => msg.text)?.text?.slice(0, 80) ?? "";
+    await this.flushPersist(sessionId);
+    session.messages = trimMessageWindow(session.messages);
+    this.fireOnSessionChange();
+  }
+
+  // --- Transcript Resync ---
+
+  /** Reconciles every restored session with its runtime so the sidebar reflects what happened while maestro was down. */
+  private async resyncRestoredSessions(): Promise<void> {
+    let changed = 0;
+    for (const sessionId of [...this.unsyncedSessions]) {
+      if (await this.syncRestoredSession(sessionId)) changed++;
+    }
+    if (changed > 0) {
+      console.log(`[resync] resynced ${changed} session(s) from their runtimes`);
+    }
+  }
+
+  /**
+   * Reconciles a restored session the startup pass hasn't reached yet, so a session opened
+   * or sent a message right after launch doesn't act on a stale transcript. Returns whether
+   * the runtime had anything new.
+   */
+  async syncRestoredSession(sessionId: string): Promise<boolean> {
+    const inFlight = this.restoredSyncs.get(sessionId);
+    if (inFlight) return inFlight;
+    if (!this.unsyncedSessions.has(sessionId)) return false;
+
+    const session = this.sessions.get(sessionId);
+    const sync = this.resyncSession(sessionId)
+      .then((result) => result.added > 0 || result.updated > 0)
+      .catch((err) => {
+        this.unsyncedSessions.delete(sessionId);
+        console.warn(`[${session?.backend ?? "resync"}] resync failed for ${sessionId}:`, err);
+        return false;
+      })
+      .finally(() => this.restoredSyncs.delete(sessionId));
+    this.restoredSyncs.set(sessionId, sync);
+    return sync;
+  }
+
+  /**
+   * Re-queries status and pending permissions for a backend's sessions that were mid-turn
+   * or waiting on input, since their events may have been lost while the feed was down.
+   */
+  private async resyncActiveSessions(backend: AgentBackend): Promise<void> {
+    const active = Array.from(this.sessions.values()).filter((session) =>
+      session.backend === backend &&
+      session.sdkSessionId &&
+      (session.status === "streaming" || session.status === "starting" || session.status === "needs_input")
+    );
+    for (const session of active) {
+      try {
+        await this.resyncSession(session.id);
+      } catch (err) {
+        console.warn(`[${backend}] resync failed for ${session.id}:`, err);
+      }
+    }
+  }
+
+  /**
+   * Reconciles a session with the runtime's authoritative message list: fills in messages
+   * missed while maestro was down (or inside the persist debounce), refreshes assistant
+   * content and turn results, recomputes usage totals and restores pending permissions.
+   */
+  async resyncSession(sessionId: string): Promise<{ added: number; updated: number }> {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error("Session not found");
+    if (!session.sdkSessionId) throw new Error("Session has not started on its runtime yet");
+    const backend = this.getBackend(session);
+    if (!backend.getSnapshot) throw new Error(`${backend.label} sessions can't be resynced`);
+
+    const snapshot = await backend.getSnapshot(session.sdkSessionId, session.cwd);
+    this.unsyncedSessions.delete(sessionId);
+
+    const transcript = await this.getFullTranscript(sessionId);
+    const local = new Map(transcript.map((msg) => [msg.id, msg]));
+    // Local user messages carry our own ids; pair them with the runtime's copies by text, in order
+    const unmatchedUserMessages = transcript.filter((msg) => msg.type === "user");
+
+    // Rebuilding from the runtime recomputes usage totals from scratch
+    session.totalCostUsd = 0;
+    session.inputTokens = 0;
+    session.outputTokens = 0;
+    session.turnCount = 0;
+    const remote = this.buildTranscript(session, snapshot.messages);
+
+    let added = 0;
+    let updated = 0;
+    for (const msg of remote) {
+      const existing = local.get(msg.id);
+      if (msg.type === "user") {
+        if (existing) {
+          unmatchedUserMessages.splice(unmatchedUserMessages.indexOf(existing), 1);
+          continue;
+        }
+        const text = (msg.text ?? "").trim();
+        const matchIndex = unmatchedUserMessages.findIndex((candidate) => (candidate.text ?? "").trim() === text);
+        if (matchIndex >= 0) {
+          unmatchedUserMessages.splice(0, matchIndex + 1);
+          continue;
+        }
+      } else if (existing) {
+        if (msg.type === "assistant" && JSON.stringify(existing.contentBlocks) !== JSON.stringify(msg.contentBlocks)) {
+          existing.contentBlocks = msg.contentBlocks;
+          existing.text = msg.text;
+          existing.rawResponse = msg.rawResponse;
+          updated++;
+        } else if (msg.type === "result" && (existing.isError !== msg.isError || existing.text !== msg.text)) {
+          existing.isError = msg.isError;
+          existing.text = msg.text;
+          updated++;
+        }
+        continue;
+      }
+      transcript.push(msg);
+      added++;
+    }
+
+    // Array#sort is stable, so same-timestamp messages keep their relative order
+    transcript.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    session.messages = trimMessageWindow(transcript);
+
+    const lastText = transcript.findLast((msg) => msg.type === "assistant" && msg.text)?.text;
+    if (lastText) session.lastMessagePreview = lastText.slice(0, 80);
+    const settings = await this.loadPermissionSettings(session);
+    this.resyncPendingPermissions(session, snapshot.pendingPermissions, settings);
+
+    if (session.status !== "stopped") {
+      if (snapshot.busy) {
+        session.status = session.pendingPermissions.size > 0 ? "needs_input" : "streaming";
+      } else if (session.pendingPermissions.size > 0) {
+        session.status = "needs_input";
+      } else if (session.status === "streaming" || session.status === "starting" || session.status === "needs_input") {
+        session.status = "idle";
+        session.turnStartedAt = undefined;
+      }
+    }
+
+    await this.flushPersist(sessionId);
+    // The window save only appends; recovered messages can belong anywhere in the transcript
+    if (added > 0 || updated > 0) await replaceStoredMessages(sessionId, transcript);
+    this.fireOnSessionChange();
+    return { added, updated };
+  }
+
+  /**
+   * Re-registers permissions the runtime is still waiting on, and retires unresolved
+   * permission prompts the runtime no longer knows about so they stop offering buttons.
+   */
+  private resyncPendingPermissions(session: AgentSession, pending: BackendPermission[], settings: PermissionSettings): void {
+    const pendingIds = new Set(pending.map((permission) => permission.id));
+    for (const msg of session.messages) {
+      const permissionId = msg.permissionData?.toolUseId;
+      if (!permissionId || msg.permissionData!.resolved || pendingIds.has(permissionId)) continue;
+      const stale = session.pendingPermissions.get(permissionId);
+      if (stale) clearTimeout(stale.timeoutId);
+      session.pendingPermissions.delete(permissionId);
+      msg.permissionData!.resolved = "timed_out";
+    }
+
+    for (const permission of pending) {
+      // Snapshots can lack the original title and request time; keep what the prompt already shows
+      const existingMsg = session.messages.find((m) => m.id === `perm-${permission.id}`);
+      this.applyPermissionRequested(session, {
+        ...permission,
+        title: existingMsg?.permissionData?.toolName ?? permission.title,
+        createdAt: existingMsg?.timestamp ?? permission.createdAt,
+      }, settings);
+    }
+  }
+
   getSession(id: string): AgentSession | undefined {
     return this.sessions.get(id);
   }
 
+  /** Sessions from a backend that's no longer registered show its id. */
+  getBackendInfo(session: AgentSession): BackendInfo {
+    const backend = this.backends.get(session.backend);
+    return {
+      label: backend?.label ?? session.backend,
+      canSwitchAgents: typeof backend?.listAgents === "function",
+      canFork: Boolean(session.sdkSessionId && backend?.fork && backend.getSnapshot),
+      canRewind: Boolean(session.sdkSessionId && backend?.revert && backend.getSnapshot),
+    };
+  }
+
   getSessions(): AgentSession[] {
     return Array.from(this.sessions.values()).sort(
       (a, b) => b.lastActivity.getTime() - a.lastActivity.getTime()
@@ -747,6 +1738,60 @@ export class AgentManager {
     return session.messages.slice(-count);
   }
 
+  /**
+   * Returns the transcript from the given message onwards. Falls back to the store
+   * when the message has already been trimmed out of the in-memory window.
+   */
+  async getMessagesFrom(sessionId: string, messageId: string): Promise<AgentMessage[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return [];
+    const index = session.messages.findIndex((msg) => msg.id === messageId);
+    if (index >= 0) {
+      return session.messages.slice(index);
+    }
+    const persisted = await loadMessagesFrom(sessionId, messageId);
+    if (persisted.length === 0) {
+      return this.getRecentMessages(sessionId);
+    }
+    // Prefer live in-memory copies for anything still in the window
+    const live = new Map(session.messages.map((msg) => [msg.id, msg]));
+    const merged = persisted.map((msg) => live.get(msg.id) ?? msg);
+    const persistedIds = new Set(persisted.map((msg) => msg.id));
+    return merged.concat(session.messages.filter((msg) => !persistedIds.has(msg.id)));
+  }
+
+  /**
+   * Returns one page of history older than `beforeId`, read from the store so messages
+   * trimmed out of the in-memory window stay reachable. Pending saves are flushed first
+   * so the cursor always resolves.
+   */
+  async getMessagesBefore(sessionId: string, beforeId: string, limit = 50): Promise<{ messages: AgentMessage[]; hasMore: boolean }> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return { messages: [], hasMore: false };
+    await this.flushPersist(sessionId);
+    const persisted = await loadMessagesBefore(sessionId, beforeId, limit + 1);
+    const hasMore = persisted.length > limit;
+    const live = new Map(session.messages.map((msg) => [msg.id, msg]));
+    const messages = persisted.slice(hasMore ? 1 : 0).map((msg) => live.get(msg.id) ?? msg);
+    return { messages, hasMore };
+  }
+
+  async hasMessagesBefore(sessionId: string, messageId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+    if (session.messages.findIndex((msg) => msg.id === messageId) > 0) return true;
+    return (await loadMessagesBefore(sessionId, messageId, 1)).length > 0;
+  }
+
+  async searchTranscripts(query: string, limit = 50): Promise<SearchHit[]> {
+    if (!query.trim()) return [];
+    return searchMessages(query, limit);
+  }
+
+  getAttachment(attachmentId: string): Promise<{ type: string; data: Uint8Array<ArrayBuffer> } | null> {
+    return loadAttachment(attachmentId);
+  }
+
   async getSessionDiff(sessionId: string): Promise<SessionDiffEntry[]> {
     const session = this.sessions.get(sessionId);
     if (!session || !session.sdkSessionId) {
@@ -754,138 +1799,99 @@ export class AgentManager {
     }
 
     try {
-      const runtime = await this.ensureOpencodeRuntime();
-      const diffResponse = await runtime.client.session.diff({
-        path: { id: session.sdkSessionId },
-        query: { directory: session.cwd },
-        responseStyle: "data",
-        throwOnError: true,
-      });
-      const diffs = this.unwrapData(diffResponse) as Array<OpenCodeFileDiff & { status?: string }>;
-      return diffs.map((diff) => ({
-        file: diff.file,
-        additions: diff.additions,
-        deletions: diff.deletions,
-        before: diff.before,
-        after: diff.after,
-        status: diff.status,
-      }));
+      return await this.getBackend(session).getDiff(session);
     } catch (err) {
-      console.warn(`[opencode] failed to load session diff for ${sessionId}:`, err);
+      console.warn(`[${session.backend}] failed to load session diff for ${sessionId}:`, err);
       return [];
     }
   }
 
-  async getAvailableModels(): Promise<{ opencode: ModelOption[]; opencodeError?: string }> {
-    const result: { opencode: ModelOption[]; opencodeError?: string } = {
-      opencode: [],
+  /** Models from every registered backend; a backend that fails to list is reported instead of hiding the rest. */
+  async getAvailableModels(): Promise<{ models: ModelOption[]; errors: { backend: AgentBackend; label: string; message: string }[] }> {
+    const result: { models: ModelOption[]; errors: { backend: AgentBackend; label: string; message: string }[] } = {
+      models: [],
+      errors: [],
     };
 
-    try {
-      const runtime = await this.ensureOpencodeRuntime();
-      const providersResponse = await runtime.client.config.providers({
-        responseStyle: "data",
-        throwOnError: true,
-      });
-      const providers = this.unwrapData(providersResponse);
-      result.opencode = this.buildOpencodeModelOptions(providers.providers);
-    } catch (err) {
-      result.opencodeError = err instanceof Error ? err.message : String(err);
-    }
+    // A slow runtime shouldn't hold up the others
+    const backends = Array.from(this.backends.values());
+    const listed = await Promise.allSettled(backends.map((backend) => backend.listModels()));
+    listed.forEach((outcome, i) => {
+      const backend = backends[i]!;
+      if (outcome.status === "fulfilled") {
+        this.rememberContextLimits(outcome.value);
+        result.models.push(...outcome.value);
+      } else {
+        result.errors.push({
+          backend: backend.id,
+          label: backend.label,
+          message: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+        });
+      }
+    });
 
     return result;
   }
 
-  private buildOpencodeModelOptions(providers: OpenCodeProvider[]): ModelOption[] {
-    const options: ModelOption[] = [];
-    for (const provider of providers) {
-      const models = Object.values(provider.models)
-        .filter((model) => model.status !== "deprecated")
-        .sort((a, b) => a.name.localeCompare(b.name));
-      for (const model of models) {
-        options.push({
-          providerId: provider.id,
-          providerName: provider.name,
-          model: model.id,
-          label: model.name,
-          description: `OpenCode via ${provider.name}`,
-        });
-      }
-    }
-    return options;
+  // --- Backend Events ---
+
+  getOpencodeRuntimeStatus(): OpencodeRuntimeStatus {
+    return this.opencodeRuntimeStatus;
   }
 
-  private async ensureOpencodeRuntime(): Promise<OpencodeRuntime> {
-    if (this.opencodeRuntime) {
-      return this.opencodeRuntime;
-    }
-    if (this.opencodeRuntimePromise) {
-      return this.opencodeRuntimePromise;
+  private markRuntimeDisconnected(backend: AgentBackendAdapter, attempt: number, delayMs: number): void {
+    const previous = this.opencodeRuntimeStatus;
+    this.opencodeRuntimeStatus = {
+      connected: false,
+      disconnectedAt: previous.disconnectedAt ?? new Date(),
+      reconnectAttempt: attempt,
+      nextRetryAt: new Date(Date.now() + delayMs),
+    };
+    if (previous.connected) {
+      console.warn(`[${backend.id}] runtime disconnected, reconnecting`);
     }
-
-    this.opencodeRuntimePromise = (async () => {
-      // Use an ephemeral port so dev reloads don't collide with a stale local server.
-      const server = await createOpencodeServer({ port: 0 });
-      const client = createOpencodeClient({ baseUrl: server.url });
-      const runtime: OpencodeRuntime = { client, server };
-      const { stream } = await client.global.event({
-        responseStyle: "data",
-        throwOnError: true,
-      });
-
-      this.opencodeRuntime = runtime;
-      this.opencodeEventLoop = this.consumeOpencodeEvents(stream as AsyncGenerator<OpenCodeGlobalEvent, unknown, unknown>)
-        .catch((err) => console.warn("[opencode] event stream failed:", err))
-        .finally(() => {
-          this.opencodeEventLoop = null;
-        });
-      return runtime;
-    })().catch((err) => {
-      this.opencodeRuntimePromise = null;
-      this.opencodeRuntime = null;
-      throw err;
-    });
-
-    return this.opencodeRuntimePromise;
+    this.fireOnSessionChange();
   }
 
-  private async consumeOpencodeEvents(stream: AsyncGenerator<OpenCodeGlobalEvent, unknown, unknown>): Promise<void> {
-    for await (const event of stream) {
-      if (!event?.payload) continue;
-      await this.handleOpencodeEvent(event.payload);
-    }
+  private markRuntimeConnected(backend: AgentBackendAdapter): void {
+    if (this.opencodeRuntimeStatus.connected) return;
+    const downFor = Date.now() - (this.opencodeRuntimeStatus.disconnectedAt?.getTime() ?? Date.now());
+    console.log(`[${backend.id}] event stream reconnected after ${Math.round(downFor / 1000)}s`);
+    this.opencodeRuntimeStatus = { connected: true };
+    this.fireOnSessionChange();
+    this.resyncActiveSessions(backend.id).catch((err) =>
+      console.warn(`[${backend.id}] post-reconnect resync failed:`, err)
+    );
   }
 
-  private async handleOpencodeEvent(event: OpenCodeEvent): Promise<void> {
+  private async handleBackendEvent(backend: AgentBackendAdapter, event: BackendEvent): Promise<void> {
     switch (event.type) {
+      case "runtime.connected":
+        this.markRuntimeConnected(backend);
+        break;
+
+      case "runtime.disconnected":
+        this.markRuntimeDisconnected(backend, event.attempt, event.retryInMs);
+        break;
+
       case "session.status": {
-        const session = this.getSessionBySdkSessionId(event.properties.sessionID);
+        const session = this.getSessionBySdkSessionId(event.sdkSessionId);
         if (!session) break;
         if (session.status === "stopped") break;
-        if (event.properties.status.type === "busy") {
+        if (event.status === "busy") {
           if (session.status !== "needs_input") {
             session.status = "streaming";
           }
         } else if (
-          event.properties.status.type === "idle"
+          event.status === "idle"
           && session.pendingPermissions.size === 0
-          && !this.opencodeErroredSessions.has(session.id)
+          && !this.erroredSessions.has(session.id)
         ) {
           session.status = "idle";
           session.turnStartedAt = undefined;
-        }
-        this.persistSession(session.id);
-        this.fireOnSessionChange();
-        break;
-      }
-
-      case "session.idle": {
-        const session = this.getSessionBySdkSessionId(event.properties.sessionID);
-        if (!session) break;
-        if (session.status === "stopped") break;
-        if (session.pendingPermissions.size === 0 && !this.opencodeErroredSessions.has(session.id)) {
-          session.status = "idle";
-          session.turnStartedAt = undefined;
+          this.maybeAutoCompact(session).catch((err) =>
+            console.warn(`[${session.backend}] auto-compact failed for ${session.id}:`, err)
+          );
         }
         this.persistSession(session.id);
         this.fireOnSessionChange();
@@ -893,80 +1899,59 @@ export class AgentManager {
       }
 
       case "session.updated": {
-        const session = this.getSessionBySdkSessionId(event.properties.info.id);
+        const session = this.getSessionBySdkSessionId(event.sdkSessionId);
         if (!session) break;
-        session.lastActivity = new Date(event.properties.info.time.updated);
+        session.lastActivity = event.updatedAt;
         this.persistSession(session.id);
         this.fireOnSessionChange();
         break;
       }
 
-      case "message.updated": {
-        this.opencodeMessageRoles.set(event.properties.info.id, event.properties.info.role);
-        if (event.properties.info.role !== "assistant") {
-          break;
-        }
-        const info = event.properties.info as OpenCodeAssistantMessage;
-        const session = this.getSessionBySdkSessionId(info.sessionID);
+      case "assistant.updated": {
+        const session = this.getSessionBySdkSessionId(event.sdkSessionId);
         if (!session) break;
-        this.upsertOpencodeAssistantMessage(session, info.id, info.time.created, info);
-        if (session.status === "stopped" && info.error && this.isAbortLikeError(this.formatOpencodeErrorMessage(info.error))) {
+        const { message } = event;
+        this.upsertAssistantMessage(session, message);
+        if (!message.turn) break;
+        if (session.status === "stopped" && message.turn.error && this.isAbortLikeError(message.turn.error)) {
           break;
         }
-        if (info.time.completed || info.error) {
-          this.upsertOpencodeResultMessage(session, info);
+        if (message.turn.completedAt || message.turn.error) {
+          this.upsertResultMessage(session, message.id, message.turn);
         }
         break;
       }
 
-      case "message.part.updated": {
-        const role = this.opencodeMessageRoles.get(event.properties.part.messageID);
-        if (role !== "assistant") break;
-        const session = this.getSessionBySdkSessionId(event.properties.part.sessionID);
+      case "permission.requested": {
+        const session = this.getSessionBySdkSessionId(event.sdkSessionId);
         if (!session) break;
-        const parts = this.opencodeParts.get(event.properties.part.messageID) ?? [];
-        const existingIndex = parts.findIndex((part) => part.id === event.properties.part.id);
-        if (existingIndex >= 0) {
-          parts[existingIndex] = event.properties.part;
-        } else {
-          parts.push(event.properties.part);
-        }
-        this.opencodeParts.set(event.properties.part.messageID, parts);
-        this.upsertOpencodeAssistantMessage(session, event.properties.part.messageID, Date.now());
-        break;
-      }
-
-      case "permission.updated": {
-        const session = this.getSessionBySdkSessionId(event.properties.sessionID);
-        if (!session) break;
-        this.applyOpencodePermissionUpdated(session, event.properties);
+        this.applyPermissionRequested(session, event.permission, await this.loadPermissionSettings(session));
         break;
       }
 
       case "permission.replied": {
-        const session = this.getSessionBySdkSessionId(event.properties.sessionID);
+        const session = this.getSessionBySdkSessionId(event.sdkSessionId);
         if (!session) break;
-        this.applyOpencodePermissionReplied(session, event.properties.permissionID, event.properties.response);
+        this.applyPermissionReplied(session, event.permissionId, event.allowed);
         break;
       }
 
       case "session.error": {
-        const session = this.getSessionForOpencodeError(event.properties.sessionID);
+        const session = this.getSessionForError(event.sdkSessionId);
         if (!session) break;
         if (session.status === "stopped") {
           this.persistSession(session.id, true);
           this.fireOnSessionChange();
           break;
         }
-        this.opencodeErroredSessions.add(session.id);
+        this.erroredSessions.add(session.id);
         session.status = "error";
         session.turnStartedAt = undefined;
-        const errorText = this.formatOpencodeErrorMessage(event.properties.error);
         const errorMsg: AgentMessage = {
           id: crypto.randomUUID(),
           type: "result",
           timestamp: new Date(),
-          text: `Error: ${errorText}`,
+          text: `Error: ${event.error}`,
           isError: true,
         };
         this.pushMessage(session, errorMsg);
@@ -978,9 +1963,9 @@ export class AgentManager {
     }
   }
 
-  private getSessionForOpencodeError(sessionID?: string): AgentSession | undefined {
-    if (sessionID) {
-      return this.getSessionBySdkSessionId(sessionID);
+  private getSessionForError(sdkSessionId?: string): AgentSession | undefined {
+    if (sdkSessionId) {
+      return this.getSessionBySdkSessionId(sdkSessionId);
     }
     const active = Array.from(this.sessions.values()).filter((session) =>
       (session.status === "streaming" || session.status === "starting")
@@ -989,32 +1974,48 @@ export class AgentManager {
     return active.length === 1 ? active[0] : undefined;
   }
 
-  private applyOpencodePermissionUpdated(session: AgentSession, permission: OpenCodePermission): void {
+  /**
+   * The repo and global policy decide first; an explicit "ask" goes straight to the user.
+   * Otherwise a remembered "Always" approval for the repo applies, and only then is the user asked.
+   * Requests touching maestro's own settings are only ever denied automatically.
+   */
+  private applyPermissionRequested(session: AgentSession, permission: BackendPermission, settings: PermissionSettings): void {
     const existing = session.pendingPermissions.get(permission.id);
     if (existing) {
       clearTimeout(existing.timeoutId);
     }
 
-    const toolInput: Record<string, unknown> = {
-      type: permission.type,
-      pattern: permission.pattern,
-      ...permission.metadata,
-    };
-    const timeoutId = setTimeout(() => {
-      session.pendingPermissions.delete(permission.id);
-      this.resumeIfNoPending(session);
-      const permMsg = session.messages.find((m) => m.id === `perm-${permission.id}`);
-      if (permMsg?.permissionData) {
-        permMsg.permissionData.resolved = "timed_out";
-        permMsg.uiAction = "replace";
-        this.fireOnMessage(permMsg, session);
-      }
-      this.fireOnSessionChange();
-    }, PERMISSION_TIMEOUT_MS);
+    const guarded = touchesPermissionSettings(permission.toolInput);
+    const decision = evaluatePermissionPolicy(settings.policy, permission.toolInput);
+    if (decision && (decision.action === "deny" || (decision.action === "allow" && !guarded))) {
+      const reply = decision.action === "allow" ? "once" : "reject";
+      this.applyAutomaticDecision(session, permission, reply, `Decided by ${describePolicyRule(decision.rule)}`);
+      return;
+    }
+    const rule = decision || guarded ? undefined : this.findPermissionRule(session.cwd, permission.toolInput);
+    if (rule) {
+      this.applyAutomaticDecision(session, permission, "always", `Repo rule: ${formatPermissionRule(rule)}`);
+      return;
+    }
+
+    const toolInput = permission.toolInput;
+    const { timeoutMs } = settings.timeout;
+    const onTimeout = guarded ? "deny" : settings.timeout.onTimeout;
+    // The runtime waits for a reply indefinitely, so an unanswered prompt gets the configured default
+    const timeoutId = timeoutMs > 0 ? setTimeout(() => {
+      if (!session.pendingPermissions.has(permission.id)) return;
+      const waited = timeoutMs % 60_000 === 0 ? `${timeoutMs / 60_000} min` : `${Math.round(timeoutMs / 1000)}s`;
+      this.applyAutomaticDecision(
+        session,
+        permission,
+        onTimeout === "allow" ? "once" : "reject",
+        `No answer after ${waited}, ${onTimeout === "allow" ? "allowed" : "denied"} automatically`,
+      );
+    }, timeoutMs) : undefined;
 
     session.pendingPermissions.set(permission.id, {
       toolUseId: permission.id,
-      toolName: permission.title || permission.type,
+      toolName: permission.title,
       toolInput,
       resolve: () => {},
       timeoutId,
@@ -1023,8 +2024,8 @@ export class AgentManager {
 
     const existingMsg = session.messages.find((m) => m.id === `perm-${permission.id}`);
     if (existingMsg?.permissionData) {
-      existingMsg.timestamp = new Date(permission.time.created);
-      existingMsg.permissionData.toolName = permission.title || permission.type;
+      existingMsg.timestamp = permission.createdAt;
+      existingMsg.permissionData.toolName = permission.title;
       existingMsg.permissionData.toolInput = toolInput;
       existingMsg.uiAction = "replace";
       this.fireOnMessage(existingMsg, session);
@@ -1032,11 +2033,11 @@ export class AgentManager {
       const permMsg: AgentMessage = {
         id: `perm-${permission.id}`,
         type: "system",
-        timestamp: new Date(permission.time.created),
-        text: `Permission requested: ${permission.title || permission.type}`,
+        timestamp: permission.createdAt,
+        text: `Permission requested: ${permission.title}`,
         sessionId: session.id,
         permissionData: {
-          toolName: permission.title || permission.type,
+          toolName: permission.title,
           toolInput,
           toolUseId: permission.id,
         },
@@ -1049,7 +2050,56 @@ export class AgentManager {
     this.fireOnSessionChange();
   }
 
-  private applyOpencodePermissionReplied(session: AgentSession, permissionId: string, response: string): void {
+  private async loadPermissionSettings(session: AgentSession): Promise<PermissionSettings> {
+    const [policy, timeout] = await Promise.all([
+      loadPermissionPolicy(session.cwd),
+      getPermissionTimeout(session.repoName, session.permissionMode),
+    ]);
+    return { policy, timeout };
+  }
+
+  /** Answers a request without asking, leaving a resolved prompt that says what decided it. */
+  private applyAutomaticDecision(
+    session: AgentSession,
+    permission: BackendPermission,
+    reply: PermissionReply,
+    decidedBy: string,
+  ): void {
+    session.pendingPermissions.delete(permission.id);
+    const permissionData: NonNullable<AgentMessage["permissionData"]> = {
+      toolName: permission.title,
+      toolInput: permission.toolInput,
+      toolUseId: permission.id,
+      resolved: reply === "reject" ? "denied" : "allowed",
+      decidedBy,
+    };
+    const existingMsg = session.messages.find((m) => m.id === `perm-${permission.id}`);
+    if (existingMsg) {
+      existingMsg.permissionData = permissionData;
+      existingMsg.uiAction = "replace";
+      this.fireOnMessage(existingMsg, session);
+    } else {
+      const permMsg: AgentMessage = {
+        id: `perm-${permission.id}`,
+        type: "system",
+        timestamp: permission.createdAt,
+        text: `Permission requested: ${permission.title}`,
+        sessionId: session.id,
+        permissionData,
+      };
+      this.pushMessage(session, permMsg);
+      this.fireOnMessage(permMsg, session);
+    }
+    this.resumeIfNoPending(session);
+    this.persistSession(session.id);
+    this.fireOnSessionChange();
+
+    this.getBackend(session).replyToPermission(session, permission.id, reply).catch((err) =>
+      console.warn(`[${session.backend}] permission reply failed:`, err)
+    );
+  }
+
+  private applyPermissionReplied(session: AgentSession, permissionId: string, allowed: boolean): void {
     const pending = session.pendingPermissions.get(permissionId);
     if (pending) {
       clearTimeout(pending.timeoutId);
@@ -1058,7 +2108,7 @@ export class AgentManager {
 
     const permMsg = session.messages.find((m) => m.id === `perm-${permissionId}`);
     if (permMsg?.permissionData) {
-      permMsg.permissionData.resolved = response === "reject" ? "denied" : "allowed";
+      permMsg.permissionData.resolved = allowed ? "allowed" : "denied";
       permMsg.uiAction = "replace";
       this.fireOnMessage(permMsg, session);
     }
@@ -1068,42 +2118,27 @@ export class AgentManager {
     this.fireOnSessionChange();
   }
 
-  private upsertOpencodeAssistantMessage(
-    session: AgentSession,
-    messageId: string,
-    createdAt: number,
-    info?: OpenCodeAssistantMessage,
-  ): void {
-    const contentBlocks = this.buildOpencodeContentBlocks(messageId);
-    const text = contentBlocks
-      .filter((block) => block.type === "text" && block.text)
-      .map((block) => block.text!.trim())
-      .filter(Boolean)
-      .join("\n\n")
-      .trim();
-    const rawResponse = {
-      backend: "opencode",
-      info,
-      parts: this.opencodeParts.get(messageId) ?? [],
-    };
-    let agentMsg = session.messages.find((msg) => msg.id === messageId && msg.type === "assistant");
+  private upsertAssistantMessage(session: AgentSession, message: BackendAssistantMessage): void {
+    const { contentBlocks, turn } = message;
+    const text = this.joinTextBlocks(contentBlocks).trim();
+    let agentMsg = session.messages.find((msg) => msg.id === message.id && msg.type === "assistant");
     if (!agentMsg) {
       agentMsg = {
-        id: messageId,
+        id: message.id,
         type: "assistant",
-        timestamp: new Date(createdAt),
+        timestamp: message.createdAt,
         contentBlocks,
         text,
-        rawResponse,
+        rawResponse: message.raw,
       };
       this.pushMessage(session, agentMsg);
       this.persistSession(session.id);
       this.fireOnMessage(agentMsg, session);
     } else {
-      agentMsg.timestamp = new Date(createdAt);
+      agentMsg.timestamp = message.createdAt;
       agentMsg.contentBlocks = contentBlocks;
       agentMsg.text = text;
-      agentMsg.rawResponse = rawResponse;
+      agentMsg.rawResponse = message.raw;
       agentMsg.uiAction = "replace";
       this.persistSession(session.id);
       this.fireOnMessage(agentMsg, session);
@@ -1112,160 +2147,35 @@ export class AgentManager {
     if (text) {
       session.lastMessagePreview = text.slice(0, 80);
     }
-    if (info) {
-      session.lastActivity = new Date(info.time.completed ?? info.time.created);
-      if (session.status !== "stopped" && !info.error && !session.pendingPermissions.size) {
-        session.status = info.time.completed ? "idle" : "streaming";
+    if (turn) {
+      session.lastActivity = turn.completedAt ?? turn.createdAt;
+      if (session.status !== "stopped" && !turn.error && !session.pendingPermissions.size) {
+        session.status = turn.completedAt ? "idle" : "streaming";
       }
-      if (info.modelID) {
-        session.model = info.modelID;
+      if (turn.model) {
+        session.model = turn.model;
       }
-      if (info.providerID) {
-        session.modelProviderId = info.providerID;
+      if (turn.providerId) {
+        session.modelProviderId = turn.providerId;
       }
     }
     this.fireOnSessionChange();
   }
 
-  private buildOpencodeContentBlocks(messageId: string): ContentBlock[] {
-    const parts = this.opencodeParts.get(messageId) ?? [];
-    const blocks: ContentBlock[] = [];
-
-    for (const part of parts) {
-      switch (part.type) {
-        case "text":
-          blocks.push({ type: "text", text: part.text, partId: part.id });
-          break;
-
-        case "reasoning":
-          blocks.push({ type: "thinking", text: part.text, partId: part.id });
-          break;
-
-        case "tool":
-          blocks.push({
-            type: "tool_use",
-            toolName: part.tool,
-            toolInput: part.state.input,
-            toolUseId: part.callID,
-            partId: `${part.id}:tool`,
-          });
-          if (part.state.status === "completed") {
-            blocks.push({
-              type: "tool_result",
-              toolName: part.tool,
-              toolUseId: part.callID,
-              content: part.state.output,
-              partId: `${part.id}:result`,
-            });
-          } else if (part.state.status === "error") {
-            blocks.push({
-              type: "tool_result",
-              toolName: part.tool,
-              toolUseId: part.callID,
-              content: part.state.error,
-              isError: true,
-              partId: `${part.id}:result`,
-            });
-          }
-          break;
-
-        case "file":
-          if (part.mime.startsWith("image/") && part.url.startsWith("data:") && part.url.includes(";base64,")) {
-            const [, payload] = part.url.split(";base64,");
-            if (payload) {
-              blocks.push({
-                type: "image",
-                partId: part.id,
-                source: {
-                  type: "base64",
-                  media_type: part.mime,
-                  data: payload,
-                },
-              });
-            }
-          }
-          break;
-
-        case "patch":
-          if (part.files.length > 0) {
-            blocks.push({
-              type: "tool_result",
-              toolName: "Patch",
-              content: `Updated files:\n${part.files.join("\n")}`,
-              partId: part.id,
-            });
-          }
-          break;
-      }
-    }
-
-    return blocks;
-  }
-
-  private formatOpencodeErrorMessage(error: OpenCodeAssistantMessage["error"]): string {
-    if (!error) {
-      return "OpenCode session failed";
-    }
-    if (error.name === "ProviderAuthError" && error.data?.providerID && error.data?.message) {
-      return `${error.data.providerID}: ${error.data.message}`;
-    }
-    if (error.name === "APIError" && error.data) {
-      const parts = [error.data.message];
-      if (typeof error.data.statusCode === "number") {
-        parts.push(`(HTTP ${error.data.statusCode})`);
-      }
-      if (typeof error.data.responseBody === "string" && error.data.responseBody.trim()) {
-        const responseBody = error.data.responseBody.trim();
-        try {
-          const parsed = JSON.parse(responseBody);
-          if (parsed && typeof parsed === "object" && "error" in parsed && typeof parsed.error === "string") {
-            parts.push(parsed.error);
-          } else {
-            parts.push(responseBody);
-          }
-        } catch {
-          parts.push(responseBody);
-        }
-      }
-      return parts.join(" ");
-    }
-    if ("data" in error && error.data && typeof error.data === "object" && "message" in error.data && typeof error.data.message === "string") {
-      return error.data.message;
-    }
-    return error.name || "OpenCode session failed";
-  }
-
   private isAbortLikeError(message: unknown): boolean {
     if (typeof message !== "string" || !message) return false;
     return message.toLowerCase().includes("aborted");
   }
 
-  private upsertOpencodeResultMessage(session: AgentSession, info: OpenCodeAssistantMessage): void {
-    const resultId = `result-${info.id}`;
+  private upsertResultMessage(session: AgentSession, messageId: string, turn: BackendTurnInfo): void {
+    const resultId = `result-${messageId}`;
     let resultMsg = session.messages.find((msg) => msg.id === resultId && msg.type === "result");
-    const timestamp = new Date(info.time.completed ?? Date.now());
-    const isError = Boolean(info.error);
-    const resultText = isError ? this.formatOpencodeErrorMessage(info.error) : "Done";
+    const timestamp = turn.completedAt ?? new Date();
+    const isError = Boolean(turn.error);
+    const resultText = turn.error ?? "Done";
 
     if (!resultMsg) {
-      session.totalCostUsd += info.cost || 0;
-      session.inputTokens += info.tokens.input || 0;
-      session.outputTokens += info.tokens.output || 0;
-      session.turnCount += 1;
-      resultMsg = {
-        id: resultId,
-        type: "result",
-        timestamp,
-        durationMs: session.turnStartedAt
-          ? Math.max(0, timestamp.getTime() - session.turnStartedAt.getTime())
-          : undefined,
-        costUsd: info.cost || 0,
-        inputTokens: info.tokens.input || 0,
-        outputTokens: info.tokens.output || 0,
-        numTurns: 1,
-        text: resultText,
-        isError,
-      };
+      resultMsg = this.createResultMessage(session, messageId, turn, session.turnStartedAt);
       this.pushMessage(session, resultMsg);
     } else {
       resultMsg.timestamp = timestamp;
@@ -1275,9 +2185,9 @@ export class AgentManager {
     }
 
     if (isError) {
-      this.opencodeErroredSessions.add(session.id);
+      this.erroredSessions.add(session.id);
     } else {
-      this.opencodeErroredSessions.delete(session.id);
+      this.erroredSessions.delete(session.id);
     }
     if (session.status !== "stopped") {
       session.status = isError ? "error" : (session.pendingPermissions.size > 0 ? "needs_input" : "idle");
@@ -1288,28 +2198,27 @@ export class AgentManager {
     this.fireOnSessionChange();
   }
 
-  private async resolveOpencodePermission(session: AgentSession, permissionId: string, allow: boolean): Promise<void> {
-    const runtime = await this.ensureOpencodeRuntime();
-    await runtime.client.postSessionIdPermissionsPermissionId({
-      path: {
-        id: session.sdkSessionId,
-        permissionID: permissionId,
-      },
-      query: { directory: session.cwd },
-      body: { response: allow ? "once" : "reject" },
-      responseStyle: "data",
-      throwOnError: true,
-    });
-  }
-
-  private async abortOpencodeSession(session: AgentSession): Promise<void> {
-    const runtime = await this.ensureOpencodeRuntime();
-    await runtime.client.session.abort({
-      path: { id: session.sdkSessionId },
-      query: { directory: session.cwd },
-      responseStyle: "data",
-      throwOnError: true,
-    });
+  /** Builds the turn result for a finished assistant message and adds its usage to the session totals. */
+  private createResultMessage(session: AgentSession, messageId: string, turn: BackendTurnInfo, turnStartedAt?: Date): AgentMessage {
+    const timestamp = turn.completedAt ?? new Date();
+    session.totalCostUsd += turn.costUsd;
+    session.inputTokens += turn.inputTokens;
+    session.outputTokens += turn.outputTokens;
+    session.turnCount += 1;
+    return {
+      id: `result-${messageId}`,
+      type: "result",
+      timestamp,
+      durationMs: turnStartedAt
+        ? Math.max(0, timestamp.getTime() - turnStartedAt.getTime())
+        : undefined,
+      costUsd: turn.costUsd,
+      inputTokens: turn.inputTokens,
+      outputTokens: turn.outputTokens,
+      numTurns: 1,
+      text: turn.error ?? "Done",
+      isError: Boolean(turn.error),
+    };
   }
 
   // --- Repo Scanning ---
@@ -0,0 +1,149 @@
+import type { AgentBackend, AgentSession, ContentBlock, SessionDiffEntry } from "./types.ts";
+
+// --- Backend Interface ---
+
+/**
+ * An agent runtime that sessions run on. AgentManager owns the dashboard state and routes
+ * each session through the backend named by `session.backend`; the backend owns transport
+ * and translates its native messages into the events below.
+ */
+export interface AgentBackendAdapter {
+  readonly id: AgentBackend;
+  // Shown where the runtime is named to the user, e.g. "OpenCode unavailable: ..."
+  readonly label: string;
+  createSession(cwd: string, title: string): Promise<{ sdkSessionId: string; updatedAt: Date }>;
+  prompt(session: AgentSession, text: string, files?: BackendFile[], references?: BackendFileReference[]): Promise<void>;
+  /** Throws if `prompt` would refuse any of `files`, so nothing is stored for a prompt that can't be sent. */
+  validateAttachments?(files: BackendFile[]): void;
+  /** Runs a runtime-defined slash command; like `prompt`, resolves once accepted and streams over events. */
+  runCommand?(session: AgentSession, command: string, args: string): Promise<void>;
+  /** Runs `command` in the session's shell; the output lands in the transcript as a tool call. */
+  runShell?(session: AgentSession, command: string): Promise<void>;
+  /** Repo files matching `query` (fuzzy, relative to `cwd`), for @-mention autocomplete. */
+  findFiles?(cwd: string, query: string): Promise<string[]>;
+  /** Slash commands available in `cwd`, for autocomplete. */
+  listCommands?(cwd: string): Promise<BackendCommand[]>;
+  /** Agents a session in `cwd` can be switched to; sessions without a chosen agent follow their permission mode. */
+  listAgents?(cwd: string): Promise<BackendAgent[]>;
+  abort(session: AgentSession): Promise<void>;
+  /** "always" also approves matching requests for the rest of the runtime session. */
+  replyToPermission(session: AgentSession, permissionId: string, reply: PermissionReply): Promise<void>;
+  getDiff(session: AgentSession): Promise<SessionDiffEntry[]>;
+  listModels(): Promise<ModelOption[]>;
+  /** Hides `sdkMessageId` and everything after it, restoring files to their state before it. */
+  revert?(session: AgentSession, sdkMessageId: string): Promise<void>;
+  /** Undoes the session's pending revert. */
+  unrevert?(session: AgentSession): Promise<void>;
+  /** Replaces the session's history with a summary to free up context; resolves once done. */
+  summarize?(session: AgentSession): Promise<void>;
+  /** Copies the session's history before `beforeSdkMessageId` (all of it if omitted) into a new runtime session. */
+  fork?(session: AgentSession, beforeSdkMessageId?: string): Promise<{ sdkSessionId: string; updatedAt: Date }>;
+  /** Registers the single consumer of the event feed; events are delivered in order, one at a time. */
+  subscribe(handler: BackendEventHandler): void;
+  /** Runtime sessions in `directory`, for importing ones started outside maestro. */
+  listSessions?(directory: string): Promise<BackendSessionInfo[]>;
+  /** The runtime's full view of a session, used to resync and adopt transcripts. Reverted messages are left out. */
+  getSnapshot?(sdkSessionId: string, cwd: string): Promise<BackendSessionSnapshot>;
+}
+
+export type ModelOption = {
+  backend: AgentBackend;
+  model: string;
+  label: string;
+  description: string;
+  providerId?: string;
+  providerName?: string;
+  // Tokens the model accepts as input, when the runtime reports it
+  contextLimit?: number;
+};
+
+export interface BackendFile {
+  name: string;
+  mime: string;
+  // Base64 encoded
+  data: string;
+}
+
+// An `@path` mention in the prompt text; the runtime reads the file itself
+export interface BackendFileReference {
+  // Relative to the session's cwd
+  path: string;
+  // Offsets of the mention, including the @, in the prompt text
+  start: number;
+  end: number;
+}
+
+export interface BackendAgent {
+  name: string;
+  description?: string;
+}
+
+export interface BackendCommand {
+  // Without the leading slash
+  name: string;
+  description?: string;
+}
+
+// --- Backend Events ---
+
+export interface BackendTurnInfo {
+  createdAt: Date;
+  completedAt?: Date;
+  // Already formatted for display
+  error?: string;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  model?: string;
+  providerId?: string;
+}
+
+export interface BackendAssistantMessage {
+  id: string;
+  createdAt: Date;
+  contentBlocks: ContentBlock[];
+  raw: unknown;
+  // Only present when the runtime reported message metadata, not for streamed part updates
+  turn?: BackendTurnInfo;
+}
+
+export type PermissionReply = "once" | "always" | "reject";
+
+export interface BackendPermission {
+  id: string;
+  title: string;
+  toolInput: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export type BackendEvent =
+  | { type: "session.status"; sdkSessionId: string; status: "busy" | "idle" | "retrying" }
+  | { type: "session.updated"; sdkSessionId: string; updatedAt: Date }
+  | { type: "assistant.updated"; sdkSessionId: string; message: BackendAssistantMessage }
+  | { type: "permission.requested"; sdkSessionId: string; permission: BackendPermission }
+  | { type: "permission.replied"; sdkSessionId: string; permissionId: string; allowed: boolean }
+  // Some runtime errors aren't tied to a session
+  | { type: "session.error"; sdkSessionId?: string; error: string }
+  | { type: "runtime.connected" }
+  | { type: "runtime.disconnected"; attempt: number; retryInMs: number };
+
+export type BackendEventHandler = (event: BackendEvent) => Promise<void>;
+
+// --- Snapshots ---
+
+export interface BackendSessionInfo {
+  sdkSessionId: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type BackendTranscriptEntry =
+  | { role: "user"; id: string; createdAt: Date; text: string; raw: unknown }
+  | { role: "assistant"; message: BackendAssistantMessage };
+
+export interface BackendSessionSnapshot extends BackendSessionInfo {
+  busy: boolean;
+  messages: BackendTranscriptEntry[];
+  pendingPermissions: BackendPermission[];
+}
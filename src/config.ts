@@ -1,5 +1,5 @@
 import { readFile, writeFile, mkdir, stat } from "fs/promises";
-import { join } from "path";
+import { join, resolve, sep } from "path";
 import { homedir } from "os";
 import { createInterface } from "readline";
 
@@ -7,10 +7,57 @@ const CONFIG_DIR = join(homedir(), ".maestro");
 const CONFIG_FILE = join(CONFIG_DIR, "config.json");
 const LEGACY_CONFIG_DIR = join(homedir(), ".claudesk");
 const LEGACY_CONFIG_FILE = join(LEGACY_CONFIG_DIR, "config.json");
+const DEFAULT_DATA_DIR = join(CONFIG_DIR, "sessions");
+
+export interface RetentionPolicy {
+  /** Prune sessions with no activity for this many days. */
+  maxAgeDays?: number;
+  /** Keep at most this many sessions per repo, newest first. */
+  maxSessionsPerRepo?: number;
+  /** Prune oldest sessions until the stored transcripts fit in this many megabytes. */
+  maxTotalSizeMb?: number;
+}
 
 interface MaestroConfig {
   repos: string;
   repoBlacklistPatterns?: string[];
+  /** Where the session store lives; defaults to ~/.maestro/sessions. */
+  dataDir?: string;
+  retention?: RetentionPolicy;
+  /** Attach to this already-running OpenCode server instead of spawning one. */
+  opencodeUrl?: string;
+  /** Spawn a private server when `opencodeUrl` fails its health check. */
+  opencodeFallbackSpawn?: boolean;
+  /**
+   * Compact a session once the input tokens it has used since its last compaction reach
+   * this fraction (0-1) of the model's context limit. Off when unset.
+   */
+  autoCompactThreshold?: number;
+  /**
+   * How long a permission prompt waits for an answer and what is sent when it doesn't get one.
+   * Repo settings (by repo name) win over mode settings, which win over the defaults.
+   */
+  permissionTimeouts?: PermissionTimeoutSettings & {
+    modes?: Record<string, PermissionTimeoutSettings>;
+    repos?: Record<string, PermissionTimeoutSettings>;
+  };
+}
+
+export interface PermissionTimeoutSettings {
+  /** 0 waits indefinitely. */
+  timeoutSeconds?: number;
+  onTimeout?: "allow" | "deny";
+}
+
+export interface PermissionTimeout {
+  timeoutMs: number;
+  onTimeout: "allow" | "deny";
+}
+
+const DEFAULT_PERMISSION_TIMEOUT: PermissionTimeout = { timeoutMs: 5 * 60 * 1000, onTimeout: "deny" };
+
+function expandHome(path: string): string {
+  return path.startsWith("~/") ? join(homedir(), path.slice(2)) : path;
 }
 
 async function readConfigFile(path: string): Promise<MaestroConfig | null> {
@@ -52,10 +99,7 @@ async function setupConfig(): Promise<MaestroConfig> {
       process.stdout.write("Path cannot be empty. Please try again.\n");
       continue;
     }
-    // Expand ~ manually
-    if (reposPath.startsWith("~/")) {
-      reposPath = join(homedir(), reposPath.slice(2));
-    }
+    reposPath = expandHome(reposPath);
     try {
       const s = await stat(reposPath);
       if (!s.isDirectory()) {
@@ -90,11 +134,89 @@ export async function getReposDir(): Promise<string> {
   return cachedReposDir;
 }
 
+/** Sessions only run in checkouts under the repos directory. */
+export async function isInReposDir(path: string): Promise<boolean> {
+  const reposDir = resolve(await getReposDir());
+  return resolve(path).startsWith(reposDir + sep);
+}
+
 export async function runSetup(): Promise<void> {
   cachedReposDir = null;
   await setupConfig();
 }
 
+let cachedDataDir: string | null = null;
+
+export async function getDataDir(): Promise<string> {
+  if (cachedDataDir !== null) return cachedDataDir;
+
+  const config = await readConfig();
+  // Relative paths are taken from the config directory, never the process cwd
+  cachedDataDir = config?.dataDir ? resolve(CONFIG_DIR, expandHome(config.dataDir)) : DEFAULT_DATA_DIR;
+  return cachedDataDir;
+}
+
+export interface OpencodeServerOptions {
+  opencodeUrl?: string;
+  opencodeFallbackSpawn?: boolean;
+}
+
+export async function getOpencodeServerOptions(): Promise<OpencodeServerOptions> {
+  const config = await readConfig();
+  return {
+    opencodeUrl: config?.opencodeUrl,
+    opencodeFallbackSpawn: config?.opencodeFallbackSpawn,
+  };
+}
+
+// Read on every call so edits to the config apply on the next sweep without a restart
+export async function getRetentionPolicy(): Promise<RetentionPolicy> {
+  const config = await readConfig();
+  return config?.retention ?? {};
+}
+
+// Read on every call, like the retention policy, so it can be tuned without a restart
+export async function getAutoCompactThreshold(): Promise<number | undefined> {
+  const config = await readConfig();
+  const threshold = config?.autoCompactThreshold;
+  if (typeof threshold !== "number" || threshold <= 0 || threshold > 1) return undefined;
+  return threshold;
+}
+
+// Read on every call so timeouts can be tuned without a restart
+export async function getPermissionTimeout(repoName: string, mode: string): Promise<PermissionTimeout> {
+  const config = (await readConfig())?.permissionTimeouts;
+  const resolved = { ...DEFAULT_PERMISSION_TIMEOUT };
+  for (const settings of [config, config?.modes?.[mode], config?.repos?.[repoName]]) {
+    if (typeof settings?.timeoutSeconds === "number" && settings.timeoutSeconds >= 0) {
+      resolved.timeoutMs = settings.timeoutSeconds * 1000;
+    }
+    if (settings?.onTimeout === "allow" || settings?.onTimeout === "deny") {
+      resolved.onTimeout = settings.onTimeout;
+    }
+  }
+  return resolved;
+}
+
+const PERMISSION_POLICY_FILE = "permissions.json";
+
+/**
+ * Where permission policies live: the global file, and a directory of repo policies that each
+ * name the checkout they apply to. Both are under the config directory, never in the working
+ * tree, so neither the repo's contents nor the agent working in it can loosen them.
+ */
+export function getPermissionPolicyPaths(): { globalFile: string; repoDir: string } {
+  return {
+    globalFile: join(CONFIG_DIR, PERMISSION_POLICY_FILE),
+    repoDir: join(CONFIG_DIR, "policies"),
+  };
+}
+
+/** Whether `text` (a path or shell command) refers to maestro's config directory. */
+export function mentionsConfigDir(text: string): boolean {
+  return [CONFIG_DIR, LEGACY_CONFIG_DIR, "~/.maestro", "~/.claudesk"].some((dir) => text.includes(dir));
+}
+
 let cachedBlacklistPatterns: string[] | null = null;
 
 export async function isRepoBlacklisted(repoName: string): Promise<boolean> {
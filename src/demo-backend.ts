@@ -0,0 +1,300 @@
+import { readdir } from "fs/promises";
+import { join } from "path";
+import type { AgentSession, ContentBlock, SessionDiffEntry } from "./types.ts";
+import type {
+  AgentBackendAdapter,
+  BackendEventHandler,
+  BackendTurnInfo,
+  ModelOption,
+  PermissionReply,
+} from "./backend.ts";
+
+// --- Constants ---
+
+const DEMO_SCRIPTS_DIR = join(import.meta.dir, "demo-scripts");
+const DEMO_PROVIDER_ID = "demo";
+const STEP_DELAY_MS = 400;
+const TEXT_CHUNK_DELAY_MS = 40;
+const TEXT_CHUNK_WORDS = 4;
+const ABORT_MESSAGE = "The operation was aborted.";
+const REJECTED_TOOL_MESSAGE = "The user rejected permission to use this tool";
+
+// --- Script Format ---
+
+type DemoStep =
+  | { type: "text"; text: string }
+  | { type: "reasoning"; text: string }
+  | {
+    type: "tool";
+    tool: string;
+    input: Record<string, unknown>;
+    output?: string;
+    error?: string;
+    // Recorded in the session diff when the tool succeeds
+    diff?: { file: string; before: string; after: string };
+  }
+  | { type: "permission"; permission: string; title: string; pattern?: string | string[]; metadata?: Record<string, unknown> }
+  | { type: "error"; message: string };
+
+interface DemoTurn {
+  steps: DemoStep[];
+  usage?: { inputTokens: number; outputTokens: number; costUsd: number };
+}
+
+interface DemoScript {
+  id: string;
+  label: string;
+  description: string;
+  // Prompts play the turns in order, wrapping around after the last
+  turns: DemoTurn[];
+}
+
+interface DemoPlayback {
+  aborted: boolean;
+  // Resolves the permission step the script is waiting on, if any
+  pendingPermission?: { id: string; resolve: (allow: boolean) => void };
+}
+
+async function loadDemoScripts(): Promise<DemoScript[]> {
+  const scripts: DemoScript[] = [];
+  const files = (await readdir(DEMO_SCRIPTS_DIR)).filter((file) => file.endsWith(".json")).sort();
+  for (const file of files) {
+    try {
+      const script = await Bun.file(join(DEMO_SCRIPTS_DIR, file)).json() as DemoScript;
+      if (!script.id || !Array.isArray(script.turns) || script.turns.length === 0) {
+        throw new Error("expected an id and at least one turn");
+      }
+      scripts.push(script);
+    } catch (err) {
+      console.warn(`[demo] skipping script ${file}:`, err);
+    }
+  }
+  return scripts;
+}
+
+function countChangedLines(before: string, after: string): { additions: number; deletions: number } {
+  const beforeLines = before ? before.split("\n") : [];
+  const afterLines = after ? after.split("\n") : [];
+  const remaining = new Map<string, number>();
+  for (const line of beforeLines) remaining.set(line, (remaining.get(line) ?? 0) + 1);
+  let unchanged = 0;
+  for (const line of afterLines) {
+    const count = remaining.get(line) ?? 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+      unchanged++;
+    }
+  }
+  return { additions: afterLines.length - unchanged, deletions: beforeLines.length - unchanged };
+}
+
+// --- Demo Backend ---
+
+/**
+ * Replays scripted conversations from `src/demo-scripts` so the dashboard can be exercised
+ * without provider credentials or network. Each script is offered as a model; playback
+ * emits the same backend events a live runtime would, paced so the UI visibly streams.
+ */
+export class DemoBackend implements AgentBackendAdapter {
+  readonly id = "demo" as const;
+  readonly label = "Demo";
+
+  private scriptsPromise: Promise<DemoScript[]> | null = null;
+  private eventHandler: BackendEventHandler = async () => {};
+  private turnIndexes = new Map<string, number>();
+  private playbacks = new Map<string, DemoPlayback>();
+  private diffs = new Map<string, Map<string, SessionDiffEntry>>();
+
+  subscribe(handler: BackendEventHandler): void {
+    this.eventHandler = handler;
+  }
+
+  private getScripts(): Promise<DemoScript[]> {
+    if (!this.scriptsPromise) {
+      this.scriptsPromise = loadDemoScripts().catch((err) => {
+        this.scriptsPromise = null;
+        throw err;
+      });
+    }
+    return this.scriptsPromise;
+  }
+
+  async createSession(): Promise<{ sdkSessionId: string; updatedAt: Date }> {
+    return { sdkSessionId: `demo-${crypto.randomUUID()}`, updatedAt: new Date() };
+  }
+
+  async prompt(session: AgentSession, _text: string): Promise<void> {
+    const scripts = await this.getScripts();
+    const script = scripts.find((candidate) => candidate.id === session.model);
+    if (!script) throw new Error(`Unknown demo script: ${session.model}`);
+
+    const sdkSessionId = session.sdkSessionId;
+    const turnIndex = this.turnIndexes.get(sdkSessionId) ?? 0;
+    this.turnIndexes.set(sdkSessionId, turnIndex + 1);
+    const turn = script.turns[turnIndex % script.turns.length]!;
+
+    const playback: DemoPlayback = { aborted: false };
+    this.playbacks.set(sdkSessionId, playback);
+    // Like a real runtime, the prompt is accepted right away and the turn plays out over events
+    this.playTurn(sdkSessionId, script, turn, playback)
+      .catch((err) => console.warn(`[demo] playback failed for ${sdkSessionId}:`, err))
+      .finally(() => {
+        if (this.playbacks.get(sdkSessionId) === playback) this.playbacks.delete(sdkSessionId);
+      });
+  }
+
+  async abort(session: AgentSession): Promise<void> {
+    const playback = this.playbacks.get(session.sdkSessionId);
+    if (!playback) return;
+    playback.aborted = true;
+    playback.pendingPermission?.resolve(false);
+  }
+
+  async replyToPermission(session: AgentSession, permissionId: string, reply: PermissionReply): Promise<void> {
+    const pending = this.playbacks.get(session.sdkSessionId)?.pendingPermission;
+    if (!pending || pending.id !== permissionId) {
+      throw new Error(`No pending demo permission ${permissionId}`);
+    }
+    pending.resolve(reply !== "reject");
+  }
+
+  async getDiff(session: AgentSession): Promise<SessionDiffEntry[]> {
+    return Array.from(this.diffs.get(session.sdkSessionId)?.values() ?? []);
+  }
+
+  async listModels(): Promise<ModelOption[]> {
+    const scripts = await this.getScripts();
+    return scripts.map((script) => ({
+      backend: this.id,
+      providerId: DEMO_PROVIDER_ID,
+      providerName: "Demo (offline)",
+      model: script.id,
+      label: script.label || script.id,
+      description: script.description || "Scripted offline replay",
+    }));
+  }
+
+  // --- Playback ---
+
+  private async playTurn(sdkSessionId: string, script: DemoScript, turn: DemoTurn, playback: DemoPlayback): Promise<void> {
+    const messageId = `demo-msg-${crypto.randomUUID()}`;
+    const createdAt = new Date();
+    const blocks: ContentBlock[] = [];
+    const emitMessage = (info?: Partial<BackendTurnInfo>) => this.eventHandler({
+      type: "assistant.updated",
+      sdkSessionId,
+      message: {
+        id: messageId,
+        createdAt,
+        contentBlocks: blocks.map((block) => ({ ...block })),
+        raw: { backend: "demo", script: script.id, blocks },
+        turn: info
+          ? {
+            createdAt,
+            costUsd: 0,
+            inputTokens: 0,
+            outputTokens: 0,
+            model: script.id,
+            providerId: DEMO_PROVIDER_ID,
+            ...info,
+          }
+          : undefined,
+      },
+    });
+    const pause = async (ms: number) => {
+      await Bun.sleep(ms);
+      return !playback.aborted;
+    };
+
+    await this.eventHandler({ type: "session.status", sdkSessionId, status: "busy" });
+    await emitMessage({});
+
+    let rejectNextTool = false;
+    let error: string | undefined;
+    for (const step of turn.steps) {
+      if (!await pause(STEP_DELAY_MS)) break;
+
+      if (step.type === "text" || step.type === "reasoning") {
+        const block: ContentBlock = {
+          type: step.type === "text" ? "text" : "thinking",
+          text: "",
+          partId: `demo-part-${blocks.length}`,
+        };
+        blocks.push(block);
+        // Stream a few words at a time so the UI shows partial updates
+        const words = step.text.split(/(?<=\s)/);
+        for (let i = 0; i < words.length && !playback.aborted; i += TEXT_CHUNK_WORDS) {
+          block.text += words.slice(i, i + TEXT_CHUNK_WORDS).join("");
+          await emitMessage();
+          await pause(TEXT_CHUNK_DELAY_MS);
+        }
+      } else if (step.type === "tool") {
+        const callId = `demo-call-${blocks.length}`;
+        const partId = `demo-part-${blocks.length}`;
+        blocks.push({ type: "tool_use", toolName: step.tool, toolInput: step.input, toolUseId: callId, partId: `${partId}:tool` });
+        await emitMessage();
+        if (!await pause(STEP_DELAY_MS)) break;
+        const toolError = rejectNextTool ? REJECTED_TOOL_MESSAGE : step.error;
+        rejectNextTool = false;
+        blocks.push({
+          type: "tool_result",
+          toolName: step.tool,
+          toolUseId: callId,
+          content: toolError ?? step.output ?? "",
+          isError: toolError ? true : undefined,
+          partId: `${partId}:result`,
+        });
+        if (!toolError && step.diff) this.recordDiff(sdkSessionId, step.diff);
+        await emitMessage();
+      } else if (step.type === "permission") {
+        const permissionId = `demo-perm-${crypto.randomUUID()}`;
+        const decision = new Promise<boolean>((resolve) => {
+          playback.pendingPermission = { id: permissionId, resolve };
+        });
+        await this.eventHandler({
+          type: "permission.requested",
+          sdkSessionId,
+          permission: {
+            id: permissionId,
+            title: step.title,
+            toolInput: { type: step.permission, pattern: step.pattern, ...step.metadata },
+            createdAt: new Date(),
+          },
+        });
+        const allowed = await decision;
+        playback.pendingPermission = undefined;
+        if (playback.aborted) break;
+        await this.eventHandler({ type: "permission.replied", sdkSessionId, permissionId, allowed });
+        rejectNextTool = !allowed;
+      } else if (step.type === "error") {
+        error = step.message;
+        break;
+      }
+    }
+
+    if (playback.aborted) error = ABORT_MESSAGE;
+    await emitMessage({
+      completedAt: new Date(),
+      error,
+      costUsd: error ? 0 : turn.usage?.costUsd ?? 0,
+      inputTokens: turn.usage?.inputTokens ?? 0,
+      outputTokens: error ? 0 : turn.usage?.outputTokens ?? 0,
+    });
+    await this.eventHandler({ type: "session.updated", sdkSessionId, updatedAt: new Date() });
+    await this.eventHandler({ type: "session.status", sdkSessionId, status: "idle" });
+  }
+
+  private recordDiff(sdkSessionId: string, diff: { file: string; before: string; after: string }): void {
+    const files = this.diffs.get(sdkSessionId) ?? new Map<string, SessionDiffEntry>();
+    // Diffs are against the session's starting point, so the first "before" sticks
+    const before = files.get(diff.file)?.before ?? diff.before;
+    files.set(diff.file, {
+      file: diff.file,
+      before,
+      after: diff.after,
+      status: before ? "modified" : "added",
+      ...countChangedLines(before, diff.after),
+    });
+    this.diffs.set(sdkSessionId, files);
+  }
+}
@@ -0,0 +1,22 @@
+import { resolve } from "path";
+import { getDataDir } from "./config.ts";
+import { migrateLegacyData } from "./persistence.ts";
+
+// `maestro migrate-data [dir...]` merges the session directories older versions kept under
+// each launch directory (default: the current one) into the configured data directory.
+
+const roots = process.argv.slice(2).filter((arg) => !arg.startsWith("-"));
+const result = await migrateLegacyData((roots.length > 0 ? roots : [process.cwd()]).map((root) => resolve(root)));
+const dataDir = await getDataDir();
+
+if (result.sources.length === 0) {
+  console.log("No legacy session directories found.");
+} else {
+  for (const source of result.sources) {
+    console.log(`Merged ${source}`);
+  }
+  console.log(`${result.imported} session(s) imported, ${result.updated} updated in ${dataDir}`);
+  if (result.imported > 0 || result.updated > 0) {
+    console.log("Restart maestro to see the merged sessions. The old directories were left in place.");
+  }
+}
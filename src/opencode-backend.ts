@@ -0,0 +1,872 @@
+import { basename, join } from "path";
+import { pathToFileURL } from "url";
+import {
+  createOpencodeClient,
+  createOpencodeServer,
+  type Agent as OpenCodeAgent,
+  type AssistantMessage as OpenCodeAssistantMessage,
+  type Command as OpenCodeCommand,
+  type FilePartInput,
+  type Event as OpenCodeEvent,
+  type FileDiff as OpenCodeFileDiff,
+  type GlobalEvent as OpenCodeGlobalEvent,
+  type Message as OpenCodeMessage,
+  type OpencodeClient,
+  type Part as OpenCodePart,
+  type Permission as OpenCodePermission,
+  type Provider as OpenCodeProvider,
+  type Session as OpenCodeSession,
+  type TextPartInput,
+} from "@opencode-ai/sdk";
+import type { AgentSession, ContentBlock, PermissionMode, SessionDiffEntry } from "./types.ts";
+import type {
+  AgentBackendAdapter,
+  BackendAgent,
+  BackendAssistantMessage,
+  BackendCommand,
+  BackendEventHandler,
+  BackendFile,
+  BackendFileReference,
+  BackendPermission,
+  BackendSessionInfo,
+  BackendSessionSnapshot,
+  BackendTranscriptEntry,
+  ModelOption,
+  PermissionReply,
+} from "./backend.ts";
+import { getOpencodeServerOptions, type OpencodeServerOptions } from "./config.ts";
+
+// --- Constants ---
+
+export const DEFAULT_OPENCODE_PROVIDER = "anthropic";
+export const DEFAULT_OPENCODE_MODEL = "claude-sonnet-4-5";
+const OPENCODE_HEALTH_TIMEOUT_MS = 5000;
+const EVENT_STREAM_RETRY_BASE_MS = 1000;
+const EVENT_STREAM_RETRY_MAX_MS = 30 * 1000;
+
+type OpencodeRuntime = {
+  client: OpencodeClient;
+  server: {
+    url: string;
+    close(): void;
+  };
+};
+
+// A pending request as listed by GET /permission
+type OpencodePendingPermission = {
+  id: string;
+  sessionID: string;
+  permission: string;
+  patterns: string[];
+  metadata: Record<string, unknown>;
+  tool?: { messageID: string; callID: string };
+};
+
+// --- OpenCode Backend ---
+
+export class OpencodeBackend implements AgentBackendAdapter {
+  readonly id = "opencode" as const;
+  readonly label = "OpenCode";
+
+  private runtime: OpencodeRuntime | null = null;
+  private runtimePromise: Promise<OpencodeRuntime> | null = null;
+  private eventLoop: Promise<void> | null = null;
+  private eventHandler: BackendEventHandler = async () => {};
+  private parts = new Map<string, OpenCodePart[]>();
+  private messageRoles = new Map<string, string>();
+  private serverOptions: OpencodeServerOptions;
+
+  /** `serverOptions` (from CLI flags) take precedence over the config file. */
+  constructor(serverOptions: OpencodeServerOptions = {}) {
+    this.serverOptions = serverOptions;
+  }
+
+  subscribe(handler: BackendEventHandler): void {
+    this.eventHandler = handler;
+  }
+
+  private unwrapData<T>(value: T | { data: T }): T {
+    if (value && typeof value === "object" && "data" in value) {
+      return value.data;
+    }
+    return value;
+  }
+
+  /** Reads server endpoints the client has no method for (health, pending permissions). */
+  private async fetchServerJson<T>(baseUrl: string, path: string, query: Record<string, string> = {}, signal?: AbortSignal): Promise<T> {
+    const url = new URL(path, baseUrl);
+    for (const [key, value] of Object.entries(query)) url.searchParams.set(key, value);
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`GET ${path} failed with HTTP ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  // --- Sessions ---
+
+  async createSession(cwd: string, title: string): Promise<{ sdkSessionId: string; updatedAt: Date }> {
+    const runtime = await this.ensureRuntime();
+    const createdResponse = await runtime.client.session.create({
+      query: { directory: cwd },
+      body: { title },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+    const created = this.unwrapData(createdResponse);
+    return { sdkSessionId: created.id, updatedAt: new Date(created.time.updated) };
+  }
+
+  async prompt(
+    session: AgentSession,
+    text: string,
+    files: BackendFile[] = [],
+    references: BackendFileReference[] = [],
+  ): Promise<void> {
+    const runtime = await this.ensureRuntime();
+    const parts: Array<TextPartInput | FilePartInput> = text?.trim() ? [{ type: "text", text }] : [];
+    for (const file of files) parts.push(this.toFilePart(file));
+    for (const reference of references) parts.push(this.toFileReferencePart(session.cwd, text, reference));
+    await runtime.client.session.promptAsync({
+      path: { id: session.sdkSessionId },
+      query: { directory: session.cwd },
+      body: {
+        model: {
+          providerID: session.modelProviderId || DEFAULT_OPENCODE_PROVIDER,
+          modelID: session.model,
+        },
+        agent: this.getAgent(session),
+        parts,
+      },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+  }
+
+  validateAttachments(files: BackendFile[]): void {
+    for (const file of files) this.toFilePart(file);
+  }
+
+  /**
+   * Images and PDFs go to the model as data URLs. Anything that decodes as UTF-8 text is
+   * inlined, since providers reject most other file types; true binaries are refused.
+   */
+  private toFilePart(file: BackendFile): TextPartInput | FilePartInput {
+    if (file.mime.startsWith("image/") || file.mime === "application/pdf") {
+      return { type: "file", mime: file.mime, filename: file.name, url: `data:${file.mime};base64,${file.data}` };
+    }
+    const content = this.decodeText(file.data);
+    if (content === null) {
+      throw new Error(`${file.name} is a binary file; only images, PDFs and text files can be attached`);
+    }
+    return { type: "text", text: `Attached file ${file.name}:\n\n${content}` };
+  }
+
+  // OpenCode reads file:// parts from disk and gives the model their contents
+  private toFileReferencePart(cwd: string, text: string, reference: BackendFileReference): FilePartInput {
+    return {
+      type: "file",
+      mime: "text/plain",
+      filename: basename(reference.path),
+      url: pathToFileURL(join(cwd, reference.path)).href,
+      source: {
+        type: "file",
+        path: reference.path,
+        text: { value: text.slice(reference.start, reference.end), start: reference.start, end: reference.end },
+      },
+    };
+  }
+
+  async findFiles(cwd: string, query: string): Promise<string[]> {
+    const runtime = await this.ensureRuntime();
+    const response = await runtime.client.find.files({
+      query: { directory: cwd, query, dirs: "false" },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+    return this.unwrapData(response);
+  }
+
+  private decodeText(base64: string): string | null {
+    try {
+      const text = new TextDecoder("utf-8", { fatal: true }).decode(Buffer.from(base64, "base64"));
+      return text.includes("\0") ? null : text;
+    } catch {
+      return null;
+    }
+  }
+
+  async runCommand(session: AgentSession, command: string, args: string): Promise<void> {
+    const runtime = await this.ensureRuntime();
+    const request = runtime.client.session.command({
+      path: { id: session.sdkSessionId },
+      query: { directory: session.cwd },
+      body: {
+        command,
+        arguments: args,
+        agent: this.getAgent(session),
+        model: `${session.modelProviderId || DEFAULT_OPENCODE_PROVIDER}/${session.model}`,
+      },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+    this.reportWhenRejected(session.sdkSessionId, `/${command}`, request);
+  }
+
+  async runShell(session: AgentSession, command: string): Promise<void> {
+    const runtime = await this.ensureRuntime();
+    const request = runtime.client.session.shell({
+      path: { id: session.sdkSessionId },
+      query: { directory: session.cwd },
+      body: {
+        command,
+        agent: this.getAgent(session),
+        model: {
+          providerID: session.modelProviderId || DEFAULT_OPENCODE_PROVIDER,
+          modelID: session.model,
+        },
+      },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+    this.reportWhenRejected(session.sdkSessionId, `!${command}`, request);
+  }
+
+  /**
+   * The command and shell endpoints only answer once the turn is over, so they aren't awaited;
+   * progress streams over events like a prompt, and a rejected request becomes a session error.
+   */
+  private reportWhenRejected(sdkSessionId: string, label: string, request: Promise<unknown>): void {
+    request.catch((err: unknown) => this.eventHandler({
+      type: "session.error",
+      sdkSessionId,
+      error: `${label} failed: ${this.describeRequestError(err)}`,
+    }));
+  }
+
+  async listCommands(cwd: string): Promise<BackendCommand[]> {
+    const runtime = await this.ensureRuntime();
+    const response = await runtime.client.command.list({
+      query: { directory: cwd },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+    return (this.unwrapData(response) as OpenCodeCommand[])
+      .map((command) => ({ name: command.name, description: command.description }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async listAgents(cwd: string): Promise<BackendAgent[]> {
+    const runtime = await this.ensureRuntime();
+    const response = await runtime.client.app.agents({
+      query: { directory: cwd },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+    // Subagents only run when another agent delegates to them
+    return (this.unwrapData(response) as OpenCodeAgent[])
+      .filter((agent) => agent.mode !== "subagent")
+      .map((agent) => ({ name: agent.name, description: agent.description }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private getAgent(session: AgentSession): string {
+    return session.agent || this.getAgentForMode(session.permissionMode);
+  }
+
+  private getAgentForMode(mode: PermissionMode): "plan" | "build" {
+    if (mode === "plan" || mode === "default") {
+      return "plan";
+    }
+    return "build";
+  }
+
+  async abort(session: AgentSession): Promise<void> {
+    const runtime = await this.ensureRuntime();
+    await runtime.client.session.abort({
+      path: { id: session.sdkSessionId },
+      query: { directory: session.cwd },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+  }
+
+  async replyToPermission(session: AgentSession, permissionId: string, reply: PermissionReply): Promise<void> {
+    const runtime = await this.ensureRuntime();
+    await runtime.client.postSessionIdPermissionsPermissionId({
+      path: {
+        id: session.sdkSessionId,
+        permissionID: permissionId,
+      },
+      query: { directory: session.cwd },
+      body: { response: reply },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+  }
+
+  async getDiff(session: AgentSession): Promise<SessionDiffEntry[]> {
+    const runtime = await this.ensureRuntime();
+    const diffResponse = await runtime.client.session.diff({
+      path: { id: session.sdkSessionId },
+      query: { directory: session.cwd },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+    const diffs = this.unwrapData(diffResponse) as Array<OpenCodeFileDiff & { status?: string }>;
+    return diffs.map((diff) => ({
+      file: diff.file,
+      additions: diff.additions,
+      deletions: diff.deletions,
+      before: diff.before,
+      after: diff.after,
+      status: diff.status,
+    }));
+  }
+
+  async listModels(): Promise<ModelOption[]> {
+    const runtime = await this.ensureRuntime();
+    const providersResponse = await runtime.client.config.providers({
+      responseStyle: "data",
+      throwOnError: true,
+    });
+    return this.buildModelOptions(this.unwrapData(providersResponse).providers);
+  }
+
+  private buildModelOptions(providers: OpenCodeProvider[]): ModelOption[] {
+    const options: ModelOption[] = [];
+    for (const provider of providers) {
+      const models = Object.values(provider.models)
+        .filter((model) => model.status !== "deprecated")
+        .sort((a, b) => a.name.localeCompare(b.name));
+      for (const model of models) {
+        options.push({
+          backend: this.id,
+          providerId: provider.id,
+          providerName: provider.name,
+          model: model.id,
+          label: model.name,
+          description: `OpenCode via ${provider.name}`,
+          contextLimit: model.limit?.context || undefined,
+        });
+      }
+    }
+    return options;
+  }
+
+  async revert(session: AgentSession, sdkMessageId: string): Promise<void> {
+    const runtime = await this.ensureRuntime();
+    await runtime.client.session.revert({
+      path: { id: session.sdkSessionId },
+      query: { directory: session.cwd },
+      body: { messageID: sdkMessageId },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+  }
+
+  async unrevert(session: AgentSession): Promise<void> {
+    const runtime = await this.ensureRuntime();
+    await runtime.client.session.unrevert({
+      path: { id: session.sdkSessionId },
+      query: { directory: session.cwd },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+  }
+
+  async summarize(session: AgentSession): Promise<void> {
+    const runtime = await this.ensureRuntime();
+    await runtime.client.session.summarize({
+      path: { id: session.sdkSessionId },
+      query: { directory: session.cwd },
+      body: {
+        providerID: session.modelProviderId || DEFAULT_OPENCODE_PROVIDER,
+        modelID: session.model,
+      },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+  }
+
+  async fork(session: AgentSession, beforeSdkMessageId?: string): Promise<{ sdkSessionId: string; updatedAt: Date }> {
+    const runtime = await this.ensureRuntime();
+    const forkedResponse = await runtime.client.session.fork({
+      path: { id: session.sdkSessionId },
+      query: { directory: session.cwd },
+      body: { messageID: beforeSdkMessageId },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+    const forked = this.unwrapData(forkedResponse);
+    return { sdkSessionId: forked.id, updatedAt: new Date(forked.time.updated) };
+  }
+
+  // --- Snapshots ---
+
+  /** Child sessions (subagents) are left out. */
+  async listSessions(directory: string): Promise<BackendSessionInfo[]> {
+    const runtime = await this.ensureRuntime();
+    const response = await runtime.client.session.list({
+      query: { directory },
+      responseStyle: "data",
+      throwOnError: true,
+    });
+    return (this.unwrapData(response) as OpenCodeSession[])
+      .filter((remote) => !remote.parentID)
+      .map((remote) => ({
+        sdkSessionId: remote.id,
+        title: remote.title,
+        createdAt: new Date(remote.time.created),
+        updatedAt: new Date(remote.time.updated),
+      }));
+  }
+
+  async getSnapshot(sdkSessionId: string, cwd: string): Promise<BackendSessionSnapshot> {
+    const runtime = await this.ensureRuntime();
+    const [remoteResponse, messagesResponse, statusResponse, permissionsResponse] = await Promise.all([
+      runtime.client.session.get({
+        path: { id: sdkSessionId },
+        query: { directory: cwd },
+        responseStyle: "data",
+        throwOnError: true,
+      }),
+      runtime.client.session.messages({
+        path: { id: sdkSessionId },
+        query: { directory: cwd },
+        responseStyle: "data",
+        throwOnError: true,
+      }),
+      runtime.client.session.status({
+        query: { directory: cwd },
+        responseStyle: "data",
+        throwOnError: true,
+      }),
+      this.fetchServerJson<OpencodePendingPermission[]>(runtime.server.url, "/permission", { directory: cwd }),
+    ]);
+    const remote = this.unwrapData(remoteResponse);
+    // Reverted messages stay stored until the next prompt; ids are ascending, so they sort after the revert point
+    const revertedFrom = remote.revert?.messageID;
+    const remoteMessages = this.unwrapData(messagesResponse)
+      .filter(({ info }) => !revertedFrom || info.id < revertedFrom);
+    const remoteStatus = this.unwrapData(statusResponse)[sdkSessionId];
+    const pendingPermissions = permissionsResponse
+      .filter((permission) => permission.sessionID === sdkSessionId)
+      .map((permission) => this.toBackendPermission({
+        id: permission.id,
+        type: permission.permission,
+        pattern: permission.patterns,
+        sessionID: permission.sessionID,
+        messageID: permission.tool?.messageID ?? "",
+        callID: permission.tool?.callID,
+        title: permission.permission,
+        metadata: permission.metadata,
+        time: { created: Date.now() },
+      }));
+
+    return {
+      sdkSessionId: remote.id,
+      title: remote.title,
+      createdAt: new Date(remote.time.created),
+      updatedAt: new Date(remote.time.updated),
+      busy: remoteStatus?.type === "busy" || remoteStatus?.type === "retry",
+      messages: this.buildTranscript(remoteMessages),
+      pendingPermissions,
+    };
+  }
+
+  /**
+   * Uses the same part mapping as live events. Unfinished assistant messages keep their
+   * parts cached so later events for them continue where the snapshot left off.
+   */
+  private buildTranscript(remoteMessages: { info: OpenCodeMessage; parts: OpenCodePart[] }[]): BackendTranscriptEntry[] {
+    const entries: BackendTranscriptEntry[] = [];
+    for (const { info, parts } of remoteMessages) {
+      this.messageRoles.set(info.id, info.role);
+
+      if (info.role === "user") {
+        const text = parts
+          .filter((part): part is Extract<OpenCodePart, { type: "text" }> => part.type === "text" && !part.synthetic)
+          .map((part) => part.text)
+          .join("\n\n");
+        entries.push({
+          role: "user",
+          id: info.id,
+          createdAt: new Date(info.time.created),
+          text,
+          raw: { backend: "opencode", parts },
+        });
+        continue;
+      }
+
+      entries.push({ role: "assistant", message: this.toAssistantMessage(info.id, info.time.created, parts, info) });
+      if (!info.time.completed && !info.error) {
+        this.parts.set(info.id, parts);
+      }
+    }
+    return entries;
+  }
+
+  // --- Runtime ---
+
+  private async ensureRuntime(): Promise<OpencodeRuntime> {
+    if (this.runtime) {
+      return this.runtime;
+    }
+    if (this.runtimePromise) {
+      return this.runtimePromise;
+    }
+
+    this.runtimePromise = (async () => {
+      const server = await this.connectServer();
+      const client = createOpencodeClient({ baseUrl: server.url });
+      const runtime: OpencodeRuntime = { client, server };
+
+      this.runtime = runtime;
+      this.eventLoop = this.superviseEvents(runtime)
+        .catch((err) => console.warn("[opencode] event supervisor failed:", err))
+        .finally(() => {
+          this.eventLoop = null;
+        });
+      return runtime;
+    })().catch((err) => {
+      this.runtimePromise = null;
+      this.runtime = null;
+      throw err;
+    });
+
+    return this.runtimePromise;
+  }
+
+  /**
+   * Attaches to the configured OpenCode server when there is one, otherwise spawns a private
+   * server. A configured server that fails its health check is an error unless fallback
+   * spawning is enabled.
+   */
+  private async connectServer(): Promise<OpencodeRuntime["server"]> {
+    const configured = await getOpencodeServerOptions();
+    const url = this.serverOptions.opencodeUrl ?? configured.opencodeUrl;
+    const fallbackSpawn = this.serverOptions.opencodeFallbackSpawn ?? configured.opencodeFallbackSpawn ?? false;
+
+    if (url) {
+      try {
+        const version = await this.checkHealth(url);
+        console.log(`[opencode] attached to server at ${url} (${version})`);
+        // The server isn't ours, so closing the runtime must leave it running
+        return { url, close() {} };
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        if (!fallbackSpawn) {
+          throw new Error(`OpenCode server at ${url} failed its health check: ${reason}`);
+        }
+        console.warn(`[opencode] server at ${url} failed its health check (${reason}), spawning a local one`);
+      }
+    }
+
+    // Use an ephemeral port so dev reloads don't collide with a stale local server.
+    return createOpencodeServer({ port: 0 });
+  }
+
+  private async checkHealth(url: string): Promise<string> {
+    const health = await this.fetchServerJson<{ healthy?: boolean; version?: string }>(
+      url, "/global/health", {}, AbortSignal.timeout(OPENCODE_HEALTH_TIMEOUT_MS),
+    );
+    if (!health?.healthy) {
+      throw new Error("server reported unhealthy");
+    }
+    return `v${health.version}`;
+  }
+
+  // --- Event Feed ---
+
+  /**
+   * Keeps the runtime's event stream open for the life of the runtime. When the stream ends
+   * or throws, reconnects with exponential backoff and reports the outage to the subscriber,
+   * which resyncs sessions that may have missed updates once events flow again.
+   */
+  private async superviseEvents(runtime: OpencodeRuntime): Promise<void> {
+    let attempt = 0;
+    while (this.runtime === runtime) {
+      let connected = false;
+      try {
+        const { stream } = await runtime.client.global.event({
+          responseStyle: "data",
+          throwOnError: true,
+          // Retries are ours to make, so the dropped connection is visible here
+          sseMaxRetryAttempts: 1,
+        });
+        await this.consumeEvents(stream as AsyncGenerator<OpenCodeGlobalEvent, unknown, unknown>, async () => {
+          connected = true;
+          attempt = 0;
+          await this.eventHandler({ type: "runtime.connected" });
+        });
+        // A failed connect also ends the stream quietly; only a live one is worth logging
+        if (connected) console.warn("[opencode] event stream ended");
+      } catch (err) {
+        console.warn("[opencode] event stream failed:", err);
+      }
+      if (this.runtime !== runtime) break;
+
+      attempt++;
+      const delay = Math.min(EVENT_STREAM_RETRY_BASE_MS * 2 ** (attempt - 1), EVENT_STREAM_RETRY_MAX_MS);
+      await this.eventHandler({ type: "runtime.disconnected", attempt, retryInMs: delay });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  private async consumeEvents(
+    stream: AsyncGenerator<OpenCodeGlobalEvent, unknown, unknown>,
+    onConnected: () => Promise<void>,
+  ): Promise<void> {
+    let connected = false;
+    for await (const event of stream) {
+      // The SSE client connects lazily, so the first event is the proof the stream is up
+      if (!connected) {
+        connected = true;
+        await onConnected();
+      }
+      if (!event?.payload) continue;
+      await this.handleEvent(event.payload);
+    }
+  }
+
+  /** Translates OpenCode events into backend events; anything the dashboard doesn't show is dropped. */
+  private async handleEvent(event: OpenCodeEvent): Promise<void> {
+    switch (event.type) {
+      case "session.status": {
+        const status = event.properties.status.type;
+        await this.eventHandler({
+          type: "session.status",
+          sdkSessionId: event.properties.sessionID,
+          status: status === "retry" ? "retrying" : status,
+        });
+        break;
+      }
+
+      case "session.idle":
+        await this.eventHandler({ type: "session.status", sdkSessionId: event.properties.sessionID, status: "idle" });
+        break;
+
+      case "session.updated":
+        await this.eventHandler({
+          type: "session.updated",
+          sdkSessionId: event.properties.info.id,
+          updatedAt: new Date(event.properties.info.time.updated),
+        });
+        break;
+
+      case "message.updated": {
+        this.messageRoles.set(event.properties.info.id, event.properties.info.role);
+        if (event.properties.info.role !== "assistant") {
+          break;
+        }
+        const info = event.properties.info as OpenCodeAssistantMessage;
+        await this.eventHandler({
+          type: "assistant.updated",
+          sdkSessionId: info.sessionID,
+          message: this.toAssistantMessage(info.id, info.time.created, this.parts.get(info.id) ?? [], info),
+        });
+        break;
+      }
+
+      case "message.part.updated": {
+        const part = event.properties.part;
+        if (this.messageRoles.get(part.messageID) !== "assistant") break;
+        const parts = this.parts.get(part.messageID) ?? [];
+        const existingIndex = parts.findIndex((existing) => existing.id === part.id);
+        if (existingIndex >= 0) {
+          parts[existingIndex] = part;
+        } else {
+          parts.push(part);
+        }
+        this.parts.set(part.messageID, parts);
+        await this.eventHandler({
+          type: "assistant.updated",
+          sdkSessionId: part.sessionID,
+          message: this.toAssistantMessage(part.messageID, Date.now(), parts),
+        });
+        break;
+      }
+
+      case "permission.updated":
+        await this.eventHandler({
+          type: "permission.requested",
+          sdkSessionId: event.properties.sessionID,
+          permission: this.toBackendPermission(event.properties),
+        });
+        break;
+
+      case "permission.replied":
+        await this.eventHandler({
+          type: "permission.replied",
+          sdkSessionId: event.properties.sessionID,
+          permissionId: event.properties.permissionID,
+          allowed: event.properties.response !== "reject",
+        });
+        break;
+
+      case "session.error":
+        await this.eventHandler({
+          type: "session.error",
+          sdkSessionId: event.properties.sessionID,
+          error: this.formatErrorMessage(event.properties.error),
+        });
+        break;
+    }
+  }
+
+  // --- Translation ---
+
+  private toBackendPermission(permission: OpenCodePermission): BackendPermission {
+    return {
+      id: permission.id,
+      title: permission.title || permission.type,
+      toolInput: {
+        type: permission.type,
+        pattern: permission.pattern,
+        ...permission.metadata,
+      },
+      createdAt: new Date(permission.time.created),
+    };
+  }
+
+  private toAssistantMessage(
+    messageId: string,
+    createdAt: number,
+    parts: OpenCodePart[],
+    info?: OpenCodeAssistantMessage,
+  ): BackendAssistantMessage {
+    return {
+      id: messageId,
+      createdAt: new Date(createdAt),
+      contentBlocks: this.buildContentBlocks(parts),
+      raw: { backend: "opencode", info, parts },
+      turn: info
+        ? {
+          createdAt: new Date(info.time.created),
+          completedAt: info.time.completed ? new Date(info.time.completed) : undefined,
+          error: info.error ? this.formatErrorMessage(info.error) : undefined,
+          costUsd: info.cost || 0,
+          inputTokens: info.tokens.input || 0,
+          outputTokens: info.tokens.output || 0,
+          model: info.modelID || undefined,
+          providerId: info.providerID || undefined,
+        }
+        : undefined,
+    };
+  }
+
+  private buildContentBlocks(parts: OpenCodePart[]): ContentBlock[] {
+    const blocks: ContentBlock[] = [];
+
+    for (const part of parts) {
+      switch (part.type) {
+        case "text":
+          blocks.push({ type: "text", text: part.text, partId: part.id });
+          break;
+
+        case "reasoning":
+          blocks.push({ type: "thinking", text: part.text, partId: part.id });
+          break;
+
+        case "tool":
+          blocks.push({
+            type: "tool_use",
+            toolName: part.tool,
+            toolInput: part.state.input,
+            toolUseId: part.callID,
+            partId: `${part.id}:tool`,
+          });
+          if (part.state.status === "completed") {
+            blocks.push({
+              type: "tool_result",
+              toolName: part.tool,
+              toolUseId: part.callID,
+              content: part.state.output,
+              partId: `${part.id}:result`,
+            });
+          } else if (part.state.status === "error") {
+            blocks.push({
+              type: "tool_result",
+              toolName: part.tool,
+              toolUseId: part.callID,
+              content: part.state.error,
+              isError: true,
+              partId: `${part.id}:result`,
+            });
+          }
+          break;
+
+        case "file":
+          if (part.mime.startsWith("image/") && part.url.startsWith("data:") && part.url.includes(";base64,")) {
+            const [, payload] = part.url.split(";base64,");
+            if (payload) {
+              blocks.push({
+                type: "image",
+                partId: part.id,
+                source: {
+                  type: "base64",
+                  media_type: part.mime,
+                  data: payload,
+                },
+              });
+            }
+          }
+          break;
+
+        case "patch":
+          if (part.files.length > 0) {
+            blocks.push({
+              type: "tool_result",
+              toolName: "Patch",
+              content: `Updated files:\n${part.files.join("\n")}`,
+              partId: part.id,
+            });
+          }
+          break;
+      }
+    }
+
+    return blocks;
+  }
+
+  // Rejected requests throw the response body, which is usually `{ name, data: { message } }`
+  private describeRequestError(err: unknown): string {
+    if (err instanceof Error) return err.message;
+    const message = (err as { data?: { message?: unknown } } | null)?.data?.message;
+    return typeof message === "string" ? message : JSON.stringify(err);
+  }
+
+  private formatErrorMessage(error: OpenCodeAssistantMessage["error"]): string {
+    if (!error) {
+      return "OpenCode session failed";
+    }
+    if (error.name === "ProviderAuthError" && error.data?.providerID && error.data?.message) {
+      return `${error.data.providerID}: ${error.data.message}`;
+    }
+    if (error.name === "APIError" && error.data) {
+      const parts = [error.data.message];
+      if (typeof error.data.statusCode === "number") {
+        parts.push(`(HTTP ${error.data.statusCode})`);
+      }
+      if (typeof error.data.responseBody === "string" && error.data.responseBody.trim()) {
+        const responseBody = error.data.responseBody.trim();
+        try {
+          const parsed = JSON.parse(responseBody);
+          if (parsed && typeof parsed === "object" && "error" in parsed && typeof parsed.error === "string") {
+            parts.push(parsed.error);
+          } else {
+            parts.push(responseBody);
+          }
+        } catch {
+          parts.push(responseBody);
+        }
+      }
+      return parts.join(" ");
+    }
+    if ("data" in error && error.data && typeof error.data === "object" && "message" in error.data && typeof error.data.message === "string") {
+      return error.data.message;
+    }
+    return error.name || "OpenCode session failed";
+  }
+}
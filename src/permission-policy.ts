@@ -0,0 +1,162 @@
+import { readFile, readdir } from "fs/promises";
+import { join, resolve } from "path";
+import { getPermissionPolicyPaths, mentionsConfigDir } from "./config.ts";
+
+// --- Policy Format ---
+
+export type PolicyAction = "allow" | "deny" | "ask";
+
+/**
+ * One entry of a policy file's `rules` array. Every field that is set must match; `*` in a
+ * value matches any run of characters and `?` any single one.
+ */
+export interface PolicyRule {
+  action: PolicyAction;
+  // Permission type, e.g. "bash" or "edit"
+  type?: string;
+  // Matches when any of the request's patterns matches
+  pattern?: string;
+  // Matched against the request's metadata values, by key
+  metadata?: Record<string, string>;
+}
+
+export interface LoadedPolicyRule extends PolicyRule {
+  scope: "repo" | "global";
+  // 1-based position in its file, as shown in the UI
+  position: number;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  rule: LoadedPolicyRule;
+}
+
+const POLICY_ACTIONS = new Set<string>(["allow", "deny", "ask"]);
+
+// --- Loading ---
+
+/**
+ * Reads the policy for the checkout at `cwd`: the rules of the repo policy whose `repo` path
+ * resolves to it, then the global ones. Matching by path rather than directory name keeps two
+ * checkouts called the same from sharing rules. Files are read on every call so edits apply to
+ * the next request; a missing file contributes no rules and an invalid one is skipped with a warning.
+ */
+export async function loadPermissionPolicy(cwd: string): Promise<LoadedPolicyRule[]> {
+  const { globalFile, repoDir } = getPermissionPolicyPaths();
+  const checkout = resolve(cwd);
+  const rules: LoadedPolicyRule[] = [];
+
+  const repoFiles = await readdir(repoDir).then(
+    (names) => names.filter((name) => name.endsWith(".json")).sort(),
+    () => [],
+  );
+  let repoPolicyPath: string | undefined;
+  for (const name of repoFiles) {
+    const path = join(repoDir, name);
+    const policy = await readPolicyFile(path);
+    if (!policy) continue;
+    if (typeof policy.repo !== "string") {
+      console.warn(`[permissions] skipping policy ${path}: expected a repo path`);
+      continue;
+    }
+    if (resolve(policy.repo) !== checkout) continue;
+    if (repoPolicyPath) {
+      console.warn(`[permissions] skipping policy ${path}: ${repoPolicyPath} already applies to ${checkout}`);
+      continue;
+    }
+    repoPolicyPath = path;
+    rules.push(...policy.rules.map((rule, index) => ({ ...rule, scope: "repo" as const, position: index + 1 })));
+  }
+
+  const globalPolicy = await readPolicyFile(globalFile);
+  if (globalPolicy) {
+    rules.push(...globalPolicy.rules.map((rule, index) => ({ ...rule, scope: "global" as const, position: index + 1 })));
+  }
+  return rules;
+}
+
+/** A policy file's rules, or null when it is missing or invalid. */
+async function readPolicyFile(path: string): Promise<{ repo?: unknown; rules: PolicyRule[] } | null> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf-8");
+  } catch {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw) as { repo?: unknown; rules?: unknown };
+    if (!Array.isArray(parsed.rules)) throw new Error("expected a rules array");
+    return { repo: parsed.repo, rules: parsed.rules.map((rule, index) => parsePolicyRule(rule, index + 1)) };
+  } catch (err) {
+    console.warn(`[permissions] skipping policy ${path}:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+function parsePolicyRule(input: unknown, position: number): PolicyRule {
+  const rule = input as Partial<PolicyRule> | null;
+  if (!rule || typeof rule !== "object" || !POLICY_ACTIONS.has(rule.action as string)) {
+    throw new Error(`rule ${position} needs an action of allow, deny or ask`);
+  }
+  const isWildcard = (value: unknown) => value === undefined || typeof value === "string";
+  const metadataValid = rule.metadata === undefined
+    || (typeof rule.metadata === "object" && rule.metadata !== null && Object.values(rule.metadata).every((value) => typeof value === "string"));
+  if (!isWildcard(rule.type) || !isWildcard(rule.pattern) || !metadataValid) {
+    throw new Error(`rule ${position} has a non-string type, pattern or metadata value`);
+  }
+  return { action: rule.action!, type: rule.type, pattern: rule.pattern, metadata: rule.metadata };
+}
+
+// --- Evaluation ---
+
+// Backends report a request's kind as `type`, what it covers as `pattern` and the rest of its metadata alongside
+export function describePermission(toolInput: Record<string, unknown>): { permission: string; patterns: string[] } {
+  const permission = typeof toolInput.type === "string" ? toolInput.type : "unknown";
+  const raw = toolInput.pattern;
+  const patterns = typeof raw === "string" ? [raw]
+    : Array.isArray(raw) ? raw.filter((pattern): pattern is string => typeof pattern === "string")
+    : [];
+  return { permission, patterns };
+}
+
+/**
+ * A matching global `deny` always wins, so a repo policy can't lift it. Otherwise the first
+ * matching rule decides; `null` when none does.
+ */
+export function evaluatePermissionPolicy(rules: LoadedPolicyRule[], toolInput: Record<string, unknown>): PolicyDecision | null {
+  const { permission, patterns } = describePermission(toolInput);
+  const matches = (candidate: LoadedPolicyRule) =>
+    (candidate.type === undefined || matchesWildcard(candidate.type, permission))
+    && (candidate.pattern === undefined || patterns.some((pattern) => matchesWildcard(candidate.pattern!, pattern)))
+    && Object.entries(candidate.metadata ?? {}).every(([key, expected]) => {
+      const value = toolInput[key];
+      return (typeof value === "string" || typeof value === "number" || typeof value === "boolean")
+        && matchesWildcard(expected, String(value));
+    });
+  const rule = rules.find((candidate) => candidate.scope === "global" && candidate.action === "deny" && matches(candidate))
+    ?? rules.find(matches);
+  return rule ? { action: rule.action, rule } : null;
+}
+
+/**
+ * Requests that could change maestro's own settings, such as its policy files. These are
+ * never approved automatically, so the agent can't widen its own permissions.
+ */
+export function touchesPermissionSettings(toolInput: Record<string, unknown>): boolean {
+  const values = [...describePermission(toolInput).patterns, ...Object.values(toolInput)];
+  return values.some((value) => typeof value === "string" && mentionsConfigDir(value));
+}
+
+export function describePolicyRule(rule: LoadedPolicyRule): string {
+  const conditions = [
+    rule.type,
+    rule.pattern !== undefined ? `"${rule.pattern}"` : undefined,
+    ...Object.entries(rule.metadata ?? {}).map(([key, value]) => `${key}="${value}"`),
+  ].filter(Boolean);
+  return `${rule.scope} policy rule ${rule.position} (${rule.action}${conditions.length > 0 ? ` ${conditions.join(" ")}` : ""})`;
+}
+
+function matchesWildcard(wildcard: string, value: string): boolean {
+  const source = wildcard.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[\\s\\S]*").replace(/\?/g, ".");
+  return new RegExp(`^${source}$`).test(value);
+}
@@ -1,25 +1,175 @@
 import { join } from "path";
-import { readdir, unlink, mkdir } from "fs/promises";
+import { readdir, mkdir, rename, rm, copyFile, stat } from "fs/promises";
 import type {
   AgentSession,
+  ArchivedSessionSummary,
   AgentMessage,
+  PermissionRule,
   PersistedSession,
   PersistedMessage,
+  SearchHit,
+  SessionExportBundle,
+  SessionStorageUsage,
 } from "./types.ts";
+import { SqliteSessionStore, checkDatabaseIntegrity, readSessionDatabase } from "./sqlite-store.ts";
+import { getDataDir } from "./config.ts";
 
-const DATA_DIR = join(process.cwd(), ".maestro", "sessions");
-const LEGACY_DATA_DIR = join(process.cwd(), ".claudesk", "sessions");
+const DB_FILE_NAME = "sessions.db";
+const BACKUP_INTERVAL_MS = 10 * 60 * 1000;
+
+// --- Storage Interface ---
+
+export interface SessionStore {
+  save(session: PersistedSession): Promise<void>;
+  loadAll(messageLimit: number): Promise<PersistedSession[]>;
+  load(sessionId: string): Promise<PersistedSession | null>;
+  archive(sessionId: string): Promise<void>;
+  unarchive(sessionId: string): Promise<void>;
+  listArchived(): Promise<ArchivedSessionSummary[]>;
+  search(query: string, limit: number): Promise<SearchHit[]>;
+  loadMessagesFrom(sessionId: string, messageId: string): Promise<PersistedMessage[]>;
+  loadMessagesBefore(sessionId: string, messageId: string, limit: number): Promise<PersistedMessage[]>;
+  usage(): Promise<SessionStorageUsage[]>;
+  deleteMessages(sessionId: string, messageIds: string[]): Promise<void>;
+  replaceMessages(sessionId: string, messages: PersistedMessage[]): Promise<void>;
+  saveAttachment(sessionId: string, attachmentId: string, type: string, data: Uint8Array): Promise<void>;
+  loadAttachment(attachmentId: string): Promise<{ type: string; data: Uint8Array<ArrayBuffer> } | null>;
+  listPermissionRules(): Promise<PermissionRule[]>;
+  savePermissionRule(rule: PermissionRule): Promise<void>;
+  deletePermissionRule(ruleId: string): Promise<boolean>;
+  compact(minFreeBytes?: number): Promise<void>;
+  has(sessionId: string): Promise<boolean>;
+  delete(sessionId: string): Promise<void>;
+  isImported(path: string): Promise<boolean>;
+  markImported(path: string): Promise<void>;
+  backup(path: string): Promise<void>;
+  close(): void;
+}
+
+let storePromise: Promise<SessionStore> | null = null;
+let lastBackupAt = 0;
+let backupInFlight: Promise<void> | null = null;
+// Problems found while opening the store, shown in the UI until dismissed
+let storageWarnings: string[] = [];
+
+interface StorePaths {
+  dataDir: string;
+  dbFile: string;
+  backupFile: string;
+}
+
+async function getStorePaths(): Promise<StorePaths> {
+  const dataDir = await getDataDir();
+  const dbFile = join(dataDir, DB_FILE_NAME);
+  return { dataDir, dbFile, backupFile: `${dbFile}.bak` };
+}
+
+function getStore(): Promise<SessionStore> {
+  if (!storePromise) {
+    storePromise = (async () => {
+      const paths = await getStorePaths();
+      await mkdir(paths.dataDir, { recursive: true });
+      await recoverCorruptStore(paths);
+      const store = new SqliteSessionStore(paths.dbFile);
+      await importLegacySessionFiles(store, [paths.dataDir]);
+      await backupStore(store);
+      return store;
+    })().catch((err) => {
+      storePromise = null;
+      throw err;
+    });
+  }
+  return storePromise;
+}
 
 export async function ensureDataDir(): Promise<void> {
-  await mkdir(DATA_DIR, { recursive: true });
+  await getStore();
+}
+
+export function getStorageWarnings(): string[] {
+  return [...storageWarnings];
+}
+
+export function dismissStorageWarnings(): void {
+  storageWarnings = [];
+}
+
+// --- Backup & Recovery ---
+
+/** Moves a database file together with its WAL/SHM sidecars, ignoring sidecars that don't exist. */
+async function moveDatabaseFiles(from: string, to: string): Promise<void> {
+  await rename(from, to);
+  for (const suffix of ["-wal", "-shm"]) {
+    await rename(from + suffix, to + suffix).catch(() => {});
+  }
+}
+
+/**
+ * Runs before the store is opened. A database that fails the integrity check is moved
+ * aside and replaced with the last good backup generation, when one exists.
+ */
+async function recoverCorruptStore({ dbFile, backupFile }: StorePaths): Promise<void> {
+  if (!(await Bun.file(dbFile).exists())) return;
+  if (checkDatabaseIntegrity(dbFile)) return;
+
+  const corruptPath = `${dbFile}.corrupt-${Date.now()}`;
+  await moveDatabaseFiles(dbFile, corruptPath);
+  console.warn(`[persistence] session store failed integrity check, moved to ${corruptPath}`);
+
+  if ((await Bun.file(backupFile).exists()) && checkDatabaseIntegrity(backupFile)) {
+    const tempPath = `${dbFile}.tmp-${process.pid}`;
+    await copyFile(backupFile, tempPath);
+    await rename(tempPath, dbFile);
+    const backupTime = (await stat(backupFile)).mtime;
+    console.warn(`[persistence] restored session store from backup taken ${backupTime.toISOString()}`);
+    storageWarnings.push(
+      `The session store was damaged and has been restored from the backup taken ${backupTime.toLocaleString()}. ` +
+      `Activity after that point was lost; the damaged file is kept at ${corruptPath}.`
+    );
+  } else {
+    storageWarnings.push(
+      `The session store was damaged and no usable backup was found, so it was reset. ` +
+      `The damaged file is kept at ${corruptPath}.`
+    );
+  }
+}
+
+/**
+ * Snapshots the store into a temp file, verifies it, then atomically renames it over the
+ * previous backup. A failed or damaged snapshot never replaces the last good generation.
+ */
+async function backupStore(store: SessionStore): Promise<void> {
+  const { backupFile } = await getStorePaths();
+  const tempPath = `${backupFile}.tmp-${process.pid}`;
+  try {
+    await rm(tempPath, { force: true });
+    await store.backup(tempPath);
+    if (!checkDatabaseIntegrity(tempPath)) {
+      throw new Error("snapshot failed integrity check");
+    }
+    await rename(tempPath, backupFile);
+    lastBackupAt = Date.now();
+  } catch (err) {
+    await rm(tempPath, { force: true }).catch(() => {});
+    console.warn("[persistence] session store backup failed", err);
+  }
 }
 
-function serializeMessage(m: AgentMessage): PersistedMessage {
+function scheduleBackup(store: SessionStore): void {
+  if (backupInFlight || Date.now() - lastBackupAt < BACKUP_INTERVAL_MS) return;
+  backupInFlight = backupStore(store).finally(() => {
+    backupInFlight = null;
+  });
+}
+
+// --- Serialization ---
+
+export function serializeMessage(m: AgentMessage): PersistedMessage {
   const { hookStatus, rawRequest, rawResponse, uiAction, ...rest } = m;
   return { ...rest, timestamp: m.timestamp.toISOString() };
 }
 
-function deserializeMessage(data: PersistedMessage): AgentMessage {
+export function deserializeMessage(data: PersistedMessage): AgentMessage {
   return { ...data, timestamp: new Date(data.timestamp) };
 }
 
@@ -49,17 +199,46 @@ export function deserializeSession(data: PersistedSession): AgentSession {
   };
 }
 
-export async function saveSession(session: AgentSession): Promise<void> {
-  const data = serializeSession(session);
-  const filePath = join(DATA_DIR, `${session.id}.json`);
-  await Bun.write(filePath, JSON.stringify(data, null, 2));
+// --- Export Bundles ---
+
+const SESSION_BUNDLE_VERSION = 1;
+
+export function createSessionBundle(session: AgentSession): SessionExportBundle {
+  return {
+    format: "maestro-session",
+    version: SESSION_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: serializeSession(session),
+  };
 }
 
-export async function loadAllSessions(): Promise<AgentSession[]> {
-  const sessions: AgentSession[] = [];
-  const seen = new Set<string>();
+/** Validates an uploaded export bundle and returns the session it carries. Throws on anything unusable. */
+export function parseSessionBundle(input: unknown): PersistedSession {
+  const bundle = input as Partial<SessionExportBundle> | null;
+  if (!bundle || typeof bundle !== "object" || bundle.format !== "maestro-session") {
+    throw new Error("Not a maestro session bundle");
+  }
+  if (typeof bundle.version !== "number" || bundle.version > SESSION_BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version: ${String(bundle.version)}`);
+  }
+  const session = bundle.session;
+  if (!session || typeof session.id !== "string" || typeof session.cwd !== "string" || !Array.isArray(session.messages)) {
+    throw new Error("Bundle is missing session data");
+  }
+  return session;
+}
+
+// --- Legacy JSON Import ---
+
+/**
+ * One-time import of the per-session JSON files written before the SQLite store.
+ * Each file is recorded once imported, so dismissed sessions never come back.
+ * Returns the number of sessions added to the store.
+ */
+async function importLegacySessionFiles(store: SessionStore, dirs: string[]): Promise<number> {
+  let imported = 0;
 
-  for (const dir of [DATA_DIR, LEGACY_DATA_DIR]) {
+  for (const dir of dirs) {
     let entries: string[];
     try {
       entries = await readdir(dir);
@@ -68,28 +247,229 @@ export async function loadAllSessions(): Promise<AgentSession[]> {
     }
 
     for (const entry of entries) {
-      if (!entry.endsWith(".json") || seen.has(entry)) continue;
+      if (!entry.endsWith(".json")) continue;
+      const filePath = join(dir, entry);
+      if (await store.isImported(filePath)) continue;
       try {
-        const filePath = join(dir, entry);
-        const file = Bun.file(filePath);
-        const data: PersistedSession = await file.json();
-        sessions.push(deserializeSession(data));
-        seen.add(entry);
+        const data: PersistedSession = await Bun.file(filePath).json();
+        if (!(await store.has(data.id))) {
+          await store.save(data);
+          imported++;
+        }
+        await store.markImported(filePath);
       } catch (err) {
         console.warn(`[persistence] skipping corrupt session file: ${entry}`, err);
+        storageWarnings.push(`Skipped unreadable legacy session file ${filePath}.`);
       }
     }
   }
 
-  return sessions;
+  if (imported > 0) {
+    console.log(`[persistence] imported ${imported} legacy JSON session(s)`);
+  }
+  return imported;
 }
 
-export async function deleteSessionFile(sessionId: string): Promise<void> {
-  for (const dir of [DATA_DIR, LEGACY_DATA_DIR]) {
-    try {
-      await unlink(join(dir, `${sessionId}.json`));
-    } catch {
-      // File may not exist yet (session created but never persisted)
+// --- Data Directory Migration ---
+
+export interface DataMigrationResult {
+  sources: string[];
+  imported: number;
+  updated: number;
+}
+
+/** The session directories older versions created relative to the process cwd. */
+export function legacyDataDirs(root: string): string[] {
+  return [join(root, ".maestro", "sessions"), join(root, ".claudesk", "sessions")];
+}
+
+/**
+ * Copies every session (active and archived) from another session database into the store.
+ * Sessions already in the store are only overwritten by a copy with later activity.
+ */
+async function mergeSessionDatabase(store: SessionStore, path: string): Promise<Omit<DataMigrationResult, "sources">> {
+  const result = { imported: 0, updated: 0 };
+  if (!checkDatabaseIntegrity(path, true)) {
+    console.warn(`[persistence] skipping damaged session database: ${path}`);
+    return result;
+  }
+
+  let sources: ReturnType<typeof readSessionDatabase>;
+  try {
+    sources = readSessionDatabase(path);
+  } catch (err) {
+    console.warn(`[persistence] skipping unreadable session database: ${path}`, err);
+    return result;
+  }
+  for (const { session: data, archived } of sources) {
+    const existing = await store.load(data.id);
+    if (!existing) {
+      await store.save(data);
+      if (archived) await store.archive(data.id);
+      result.imported++;
+    } else if (Date.parse(data.lastActivity) > Date.parse(existing.lastActivity)) {
+      await store.save(data);
+      result.updated++;
     }
   }
+  return result;
+}
+
+/**
+ * Merges the cwd-relative session directories under each root into the configured data
+ * directory. Safe to run repeatedly: already merged sessions are skipped.
+ */
+export async function migrateLegacyData(roots: string[]): Promise<DataMigrationResult> {
+  const store = await getStore();
+  const { dataDir } = await getStorePaths();
+  const result: DataMigrationResult = { sources: [], imported: 0, updated: 0 };
+
+  for (const dir of roots.flatMap(legacyDataDirs)) {
+    if (dir === dataDir || !(await stat(dir).then((s) => s.isDirectory(), () => false))) continue;
+    result.sources.push(dir);
+
+    const dbFile = join(dir, DB_FILE_NAME);
+    if (await Bun.file(dbFile).exists()) {
+      const merged = await mergeSessionDatabase(store, dbFile);
+      result.imported += merged.imported;
+      result.updated += merged.updated;
+    }
+    result.imported += await importLegacySessionFiles(store, [dir]);
+  }
+
+  if (result.imported > 0 || result.updated > 0) {
+    await backupStore(store);
+  }
+  return result;
+}
+
+// --- Public API ---
+
+export async function saveSession(session: AgentSession): Promise<void> {
+  const store = await getStore();
+  await store.save(serializeSession(session));
+  scheduleBackup(store);
+}
+
+/** Active sessions with the latest `messageLimit` messages of each transcript. */
+export async function loadAllSessions(messageLimit: number): Promise<AgentSession[]> {
+  const store = await getStore();
+  const persisted = await store.loadAll(messageLimit);
+  return persisted.map(deserializeSession);
+}
+
+/** Loads any stored session, archived or not, with its full transcript. */
+export async function loadSession(sessionId: string): Promise<AgentSession | null> {
+  const store = await getStore();
+  const data = await store.load(sessionId);
+  return data ? deserializeSession(data) : null;
+}
+
+export async function hasStoredSession(sessionId: string): Promise<boolean> {
+  const store = await getStore();
+  return store.has(sessionId);
+}
+
+export async function deleteSessionFile(sessionId: string): Promise<void> {
+  const store = await getStore();
+  await store.delete(sessionId);
+}
+
+export async function archiveSession(sessionId: string): Promise<void> {
+  const store = await getStore();
+  await store.archive(sessionId);
+}
+
+export async function listArchivedSessions(): Promise<ArchivedSessionSummary[]> {
+  const store = await getStore();
+  return store.listArchived();
+}
+
+/** Loads an archived session (with its full transcript) and moves it back to the active list. */
+export async function restoreArchivedSession(sessionId: string): Promise<AgentSession | null> {
+  const store = await getStore();
+  const data = await store.load(sessionId);
+  if (!data) return null;
+  await store.unarchive(sessionId);
+  return deserializeSession(data);
+}
+
+export async function searchMessages(query: string, limit = 50): Promise<SearchHit[]> {
+  const store = await getStore();
+  return store.search(query, limit);
+}
+
+/** Loads a session's persisted transcript starting at the given message, in chronological order. */
+export async function loadMessagesFrom(sessionId: string, messageId: string): Promise<AgentMessage[]> {
+  const store = await getStore();
+  const messages = await store.loadMessagesFrom(sessionId, messageId);
+  return messages.map(deserializeMessage);
+}
+
+/** Loads up to `limit` persisted messages immediately preceding the given message, in chronological order. */
+export async function loadMessagesBefore(sessionId: string, messageId: string, limit: number): Promise<AgentMessage[]> {
+  const store = await getStore();
+  const messages = await store.loadMessagesBefore(sessionId, messageId, limit);
+  return messages.map(deserializeMessage);
+}
+
+/** Drops messages from a session's stored transcript, e.g. the tail of a rewound session. */
+export async function deleteStoredMessages(sessionId: string, messageIds: string[]): Promise<void> {
+  if (messageIds.length === 0) return;
+  const store = await getStore();
+  await store.deleteMessages(sessionId, messageIds);
+}
+
+/** Rewrites a session's stored transcript in the given order, e.g. after resync slots in missed messages. */
+export async function replaceStoredMessages(sessionId: string, messages: AgentMessage[]): Promise<void> {
+  const store = await getStore();
+  await store.replaceMessages(sessionId, messages.map(serializeMessage));
+}
+
+// --- Attachments ---
+
+// Attachment bytes live in their own table so session rows and transcripts stay small.
+// The session must already be saved; its attachments are deleted along with it.
+export async function saveAttachment(sessionId: string, attachmentId: string, type: string, data: Uint8Array): Promise<void> {
+  const store = await getStore();
+  await store.saveAttachment(sessionId, attachmentId, type, data);
+}
+
+export async function loadAttachment(attachmentId: string): Promise<{ type: string; data: Uint8Array<ArrayBuffer> } | null> {
+  const store = await getStore();
+  return store.loadAttachment(attachmentId);
+}
+
+// --- Permission Rules ---
+
+export async function loadPermissionRules(): Promise<PermissionRule[]> {
+  const store = await getStore();
+  return store.listPermissionRules();
+}
+
+export async function savePermissionRule(rule: PermissionRule): Promise<void> {
+  const store = await getStore();
+  await store.savePermissionRule(rule);
+}
+
+export async function deletePermissionRule(ruleId: string): Promise<boolean> {
+  const store = await getStore();
+  return store.deletePermissionRule(ruleId);
+}
+
+// --- Storage Usage ---
+
+export async function getStorageUsage(): Promise<{ sessions: SessionStorageUsage[]; fileBytes: number }> {
+  const store = await getStore();
+  const { dbFile } = await getStorePaths();
+  let fileBytes = 0;
+  for (const path of [dbFile, `${dbFile}-wal`]) {
+    fileBytes += await stat(path).then((s) => s.size, () => 0);
+  }
+  return { sessions: await store.usage(), fileBytes };
+}
+
+export async function compactStore(minFreeBytes?: number): Promise<void> {
+  const store = await getStore();
+  await store.compact(minFreeBytes);
 }
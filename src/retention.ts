@@ -0,0 +1,63 @@
+import type { RetentionPolicy } from "./config.ts";
+import type { SessionStorageUsage } from "./types.ts";
+
+export type PruneReason = "max age" | "max sessions per repo" | "max total size";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function hasRetentionLimits(policy: RetentionPolicy): boolean {
+  return Boolean(policy.maxAgeDays || policy.maxSessionsPerRepo || policy.maxTotalSizeMb);
+}
+
+/**
+ * Picks the sessions that fall outside the retention policy, applying the age, per-repo
+ * and total-size limits in that order. Sessions in `protectedIds` are never picked but
+ * still count towards the per-repo and size limits.
+ */
+export function selectSessionsToPrune(
+  usage: SessionStorageUsage[],
+  policy: RetentionPolicy,
+  protectedIds: Set<string>,
+  now = Date.now(),
+): Map<string, PruneReason> {
+  const pruned = new Map<string, PruneReason>();
+  const newestFirst = [...usage].sort((a, b) => b.lastActivity.localeCompare(a.lastActivity));
+  const canPrune = (entry: SessionStorageUsage) => !protectedIds.has(entry.sessionId) && !pruned.has(entry.sessionId);
+
+  if (policy.maxAgeDays && policy.maxAgeDays > 0) {
+    const cutoff = now - policy.maxAgeDays * DAY_MS;
+    for (const entry of newestFirst) {
+      if (canPrune(entry) && Date.parse(entry.lastActivity) < cutoff) {
+        pruned.set(entry.sessionId, "max age");
+      }
+    }
+  }
+
+  if (policy.maxSessionsPerRepo && policy.maxSessionsPerRepo > 0) {
+    const keptPerRepo = new Map<string, number>();
+    for (const entry of newestFirst) {
+      if (pruned.has(entry.sessionId)) continue;
+      const kept = keptPerRepo.get(entry.repoName) ?? 0;
+      if (kept >= policy.maxSessionsPerRepo && canPrune(entry)) {
+        pruned.set(entry.sessionId, "max sessions per repo");
+      } else {
+        keptPerRepo.set(entry.repoName, kept + 1);
+      }
+    }
+  }
+
+  if (policy.maxTotalSizeMb && policy.maxTotalSizeMb > 0) {
+    const limit = policy.maxTotalSizeMb * 1024 * 1024;
+    let total = newestFirst
+      .filter((entry) => !pruned.has(entry.sessionId))
+      .reduce((sum, entry) => sum + entry.bytes, 0);
+    for (const entry of [...newestFirst].reverse()) {
+      if (total <= limit) break;
+      if (!canPrune(entry)) continue;
+      pruned.set(entry.sessionId, "max total size");
+      total -= entry.bytes;
+    }
+  }
+
+  return pruned;
+}
@@ -3,12 +3,20 @@ import { cors } from "hono/cors";
 import { serveStatic } from "hono/bun";
 import { streamSSE } from "hono/streaming";
 import { stat } from "fs/promises";
+import { join } from "path";
 import { createServer } from "node:net";
 import { AgentManager } from "./agents.ts";
-import type { AgentSession, AgentMessage, SessionViewMode } from "./types.ts";
-import { renderLayout } from "./templates/layout.ts";
+import { isInReposDir, type OpencodeServerOptions } from "./config.ts";
+import type { AgentBackend, AgentSession, AgentMessage, SessionViewMode, SessionExportFormat } from "./types.ts";
+import { renderLayout, renderRuntimeStatus } from "./templates/layout.ts";
 import { renderSidebar } from "./templates/sidebar.ts";
-import { renderSessionDetail, renderEmptyDetail } from "./templates/session-detail.ts";
+import { renderSessionDetail, renderEmptyDetail, renderOlderMessages } from "./templates/session-detail.ts";
+import { renderSearchResults } from "./templates/search.ts";
+import { renderArchiveBrowser } from "./templates/archive.ts";
+import { renderMarkdownExport, renderHtmlExport } from "./templates/export.ts";
+import { renderOpencodeSessionBrowser } from "./templates/opencode-sessions.ts";
+import { renderStoragePanel } from "./templates/storage.ts";
+import { renderPermissionRules } from "./templates/permission-rules.ts";
 import { renderMessage, renderSessionStats, renderSessionHeaderStatus, renderTurnCompleteFooter, renderRawConversation } from "./templates/components.ts";
 
 async function randomAvailablePort() {
@@ -43,6 +51,21 @@ function readRequestedPort() {
   return argPort ?? inlinePort?.split("=")[1] ?? process.env.CLAUDESK_PORT ?? process.env.PORT ?? "3456";
 }
 
+function readFlagValue(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const index = args.indexOf(name);
+  if (index !== -1) return args[index + 1];
+  return args.find((arg) => arg.startsWith(`${name}=`))?.slice(name.length + 1);
+}
+
+// CLI flags override `opencodeUrl` / `opencodeFallbackSpawn` from the config file
+function readOpencodeServerFlags(): OpencodeServerOptions {
+  return {
+    opencodeUrl: readFlagValue("--opencode-url"),
+    opencodeFallbackSpawn: process.argv.includes("--opencode-fallback-spawn") ? true : undefined,
+  };
+}
+
 async function resolvePort() {
   const requestedPort = readRequestedPort();
   const port = requestedPort === "auto" ? await randomAvailablePort() : Number.parseInt(requestedPort, 10);
@@ -121,6 +144,7 @@ async function broadcastSidebar() {
 
 // Track previous session statuses for transition detection
 const prevStatuses = new Map<string, string>();
+let lastRuntimeStatusHtml = "";
 
 const agentManager = new AgentManager(
   // onMessage callback
@@ -136,7 +160,7 @@ const agentManager = new AgentManager(
       || msg.planApprovalData?.resolved;
 
     if (hasInteractivePrompt || shouldReplace) {
-      const html = renderMessage(msg);
+      const html = renderMessage(msg, agentManager.getBackendInfo(session));
       if (html) {
         if (shouldReplace) {
           // Resolved: inject hx-swap-oob to replace existing element in-place
@@ -167,14 +191,14 @@ const agentManager = new AgentManager(
       const footerHtml = renderTurnCompleteFooter(msg);
       broadcast("turn-complete", footerHtml, session.id);
     } else {
-      const html = renderMessage(msg);
+      const html = renderMessage(msg, agentManager.getBackendInfo(session));
       if (html) {
         broadcast("stream-append", html, session.id);
       }
     }
     // Update stats on meaningful messages (sidebar is handled by onSessionChange)
     if (msg.type === "user" || msg.type === "assistant" || msg.type === "result") {
-      const statsHtml = renderSessionStats(session);
+      const statsHtml = renderSessionStats(session, agentManager.getBackendInfo(session));
       broadcast("session-stats", statsHtml, session.id);
     }
   },
@@ -200,16 +224,24 @@ const agentManager = new AgentManager(
       if (!activeSessionIds.has(id)) prevStatuses.delete(id);
     }
 
+    // Runtime connection changes ride along with session changes; only push when it moved
+    const runtimeStatusHtml = renderRuntimeStatus(agentManager.getOpencodeRuntimeStatus());
+    if (runtimeStatusHtml !== lastRuntimeStatusHtml) {
+      lastRuntimeStatusHtml = runtimeStatusHtml;
+      broadcast("runtime-status", runtimeStatusHtml);
+    }
+
     broadcastSidebar().catch((err) => console.warn("[broadcastSidebar] error:", err));
     // Update session header status for viewers of each session
     for (const client of clients.values()) {
       if (!client.sessionId) continue;
       const session = agentManager.getSession(client.sessionId);
       if (!session) continue;
-      const html = renderSessionHeaderStatus(session);
+      const html = renderSessionHeaderStatus(session, agentManager.getBackendInfo(session));
       client.send("session-status", html);
     }
-  }
+  },
+  readOpencodeServerFlags()
 );
 
 function getRequestedViewMode(mode?: string): SessionViewMode {
@@ -217,12 +249,18 @@ function getRequestedViewMode(mode?: string): SessionViewMode {
   return "normal";
 }
 
-async function renderSessionDetailForMode(sessionId: string, mode: SessionViewMode) {
+async function renderSessionDetailForMode(sessionId: string, mode: SessionViewMode, focusMessageId?: string) {
   const session = agentManager.getSession(sessionId);
   if (!session) return null;
-  const messages = agentManager.getRecentMessages(sessionId);
+  await agentManager.syncRestoredSession(sessionId);
+  const messages = focusMessageId && mode === "normal"
+    ? await agentManager.getMessagesFrom(sessionId, focusMessageId)
+    : agentManager.getRecentMessages(sessionId);
   const diffs = mode === "diff" ? await agentManager.getSessionDiff(sessionId) : [];
-  return renderSessionDetail(session, messages, mode, diffs);
+  const hasOlder = mode === "normal" && messages[0]
+    ? await agentManager.hasMessagesBefore(sessionId, messages[0].id)
+    : false;
+  return renderSessionDetail(session, agentManager.getBackendInfo(session), messages, mode, diffs, focusMessageId, hasOlder);
 }
 
 // --- Hono App ---
@@ -270,10 +308,16 @@ app.get("/", async (c) => {
   const repos = agentManager.getLaunchableRepos();
   const pendingCounts = await agentManager.getRepoPendingCounts();
   const activeSession = sessions[0] ?? null;
+  const activeBackend = activeSession ? agentManager.getBackendInfo(activeSession) : null;
   const messages = activeSession
     ? agentManager.getRecentMessages(activeSession.id)
     : [];
-  return c.html(renderLayout(sessions, repos, activeSession, messages, pendingCounts));
+  const hasOlder = activeSession && messages[0]
+    ? await agentManager.hasMessagesBefore(activeSession.id, messages[0].id)
+    : false;
+  const storageWarnings = agentManager.getStorageWarnings();
+  const runtimeStatus = agentManager.getOpencodeRuntimeStatus();
+  return c.html(renderLayout(sessions, repos, activeSession, activeBackend, messages, pendingCounts, storageWarnings, hasOlder, runtimeStatus));
 });
 
 // SSE endpoint
@@ -317,6 +361,7 @@ app.get("/events", (c) => {
     const pendingCounts = await agentManager.getRepoPendingCounts();
     const sidebarHtml = renderSidebar(sessions, repos, sessionId ?? undefined, pendingCounts);
     client.send("sidebar", sidebarHtml);
+    client.send("runtime-status", renderRuntimeStatus(agentManager.getOpencodeRuntimeStatus()));
 
     // Replay pending notifications for sessions needing attention
     const pendingSessions = await agentManager.getSessionsNeedingAttention();
@@ -349,7 +394,7 @@ app.get("/events", (c) => {
 app.get("/sessions/:id/detail", async (c) => {
   const id = c.req.param("id");
   const mode = getRequestedViewMode(c.req.query("mode"));
-  const detailHtml = await renderSessionDetailForMode(id, mode);
+  const detailHtml = await renderSessionDetailForMode(id, mode, c.req.query("focus") || undefined);
   if (!detailHtml) {
     const repoCount = agentManager.getLaunchableRepos().length;
     return c.html(renderEmptyDetail(repoCount));
@@ -357,13 +402,40 @@ app.get("/sessions/:id/detail", async (c) => {
   return c.html(detailHtml);
 });
 
+// Cursor-paginated history: the page of messages before `before`, oldest first (HTMX swap)
+app.get("/sessions/:id/messages", async (c) => {
+  const id = c.req.param("id");
+  const before = c.req.query("before");
+  const session = agentManager.getSession(id);
+  if (!session) return c.json({ error: "Session not found" }, 404);
+  if (!before) return c.json({ error: "before is required" }, 400);
+  const limit = Math.min(Number.parseInt(c.req.query("limit") ?? "50", 10) || 50, 200);
+  const page = await agentManager.getMessagesBefore(id, before, limit);
+  return c.html(renderOlderMessages(id, agentManager.getBackendInfo(session), page.messages, page.hasMore));
+});
+
+// Full-text search across persisted transcripts
+app.get("/api/search", async (c) => {
+  const query = c.req.query("q") ?? "";
+  const limit = Math.min(Number.parseInt(c.req.query("limit") ?? "50", 10) || 50, 200);
+  const hits = await agentManager.searchTranscripts(query, limit);
+  return c.json({ query, hits });
+});
+
+// Search results pane fragment (HTMX swap)
+app.get("/search", async (c) => {
+  const query = c.req.query("q") ?? "";
+  const hits = await agentManager.searchTranscripts(query);
+  return c.html(renderSearchResults(query, hits));
+});
+
 // Raw conversation text
 app.get("/sessions/:id/raw", async (c) => {
   const id = c.req.param("id");
   const session = agentManager.getSession(id);
   if (!session) return c.json({ error: "not found" }, 404);
   const messages = agentManager.getRecentMessages(id);
-  const rawText = renderRawConversation(session, messages);
+  const rawText = renderRawConversation(session, agentManager.getBackendInfo(session), messages);
   return c.text(rawText);
 });
 
@@ -448,7 +520,7 @@ app.post("/api/focus-dashboard", async (c) => {
   return c.json({ ok: true, action: "opened" });
 });
 
-// Dismiss a session
+// Dismiss a session (moves it to the archive)
 app.delete("/sessions/:id", async (c) => {
   const id = c.req.param("id");
   const found = agentManager.dismissSession(id);
@@ -456,6 +528,200 @@ app.delete("/sessions/:id", async (c) => {
   return c.json({ ok: true });
 });
 
+// --- Storage Health ---
+
+app.get("/api/storage/warnings", (c) => {
+  return c.json({ warnings: agentManager.getStorageWarnings() });
+});
+
+app.post("/api/storage/warnings/dismiss", (c) => {
+  agentManager.dismissStorageWarnings();
+  return c.json({ ok: true });
+});
+
+// Storage usage panel fragment (HTMX swap)
+app.get("/storage", async (c) => {
+  const { sessions, fileBytes, policy } = await agentManager.getStorageUsage();
+  return c.html(renderStoragePanel(sessions, fileBytes, policy));
+});
+
+app.get("/api/storage", async (c) => {
+  return c.json(await agentManager.getStorageUsage());
+});
+
+// Manually prune sessions (permanent delete); busy sessions are skipped
+app.post("/api/storage/prune", async (c) => {
+  const body = await c.req.json<{ sessionIds?: string[] }>().catch(() => ({} as { sessionIds?: string[] }));
+  if (!Array.isArray(body.sessionIds) || body.sessionIds.length === 0) {
+    return c.json({ error: "sessionIds required" }, 400);
+  }
+  const pruned = await agentManager.pruneSessions(body.sessionIds);
+  return c.json({ ok: true, pruned });
+});
+
+app.post("/api/storage/sweep", async (c) => {
+  const pruned = await agentManager.sweepRetention();
+  return c.json({ ok: true, pruned });
+});
+
+// --- Export / Import ---
+
+const EXPORT_STYLESHEETS = ["style.css", "hljs-theme.css"].map((name) => join(import.meta.dir, "..", "static", name));
+const EXPORT_FORMATS = new Set<SessionExportFormat>(["md", "html", "json"]);
+
+function exportFilename(session: AgentSession, ext: string): string {
+  const repo = session.repoName.replace(/[^\w.-]+/g, "-");
+  return `${repo}-${session.id.slice(0, 8)}.${ext}`;
+}
+
+app.get("/sessions/:id/export", async (c) => {
+  const id = c.req.param("id");
+  const format = (c.req.query("format") ?? "md") as SessionExportFormat;
+  if (!EXPORT_FORMATS.has(format)) return c.json({ error: "format must be md, html or json" }, 400);
+  // Archived sessions export from the store
+  const exportable = await agentManager.getExportableSession(id);
+  if (!exportable) return c.json({ error: "Session not found" }, 404);
+  const { session, messages } = exportable;
+
+  c.header("Content-Disposition", `attachment; filename="${exportFilename(session, format)}"`);
+  if (format === "json") {
+    return c.json(await agentManager.exportSessionBundle(id));
+  }
+  if (format === "html") {
+    const stylesheets = await Promise.all(EXPORT_STYLESHEETS.map((path) => Bun.file(path).text()));
+    return c.html(renderHtmlExport(session, agentManager.getBackendInfo(session), messages, stylesheets));
+  }
+  return c.body(renderMarkdownExport(session, messages), 200, { "Content-Type": "text/markdown; charset=utf-8" });
+});
+
+// Attachment types safe to show in the dashboard's origin
+const INLINE_ATTACHMENT_TYPES = new Set([
+  "image/png", "image/jpeg", "image/gif", "image/webp", "image/avif", "image/bmp", "application/pdf",
+]);
+
+// Bytes of a file attached to a user message; ids are random, so this never changes
+app.get("/attachments/:id", async (c) => {
+  const attachment = await agentManager.getAttachment(c.req.param("id"));
+  if (!attachment) return c.json({ error: "Attachment not found" }, 404);
+  // The type comes from the uploading browser; anything that could run script in this origin
+  // (HTML, SVG, ...) is only ever offered as a download
+  const inline = INLINE_ATTACHMENT_TYPES.has(attachment.type.toLowerCase());
+  return c.body(attachment.data, 200, {
+    "Content-Type": inline ? attachment.type : "application/octet-stream",
+    "Content-Disposition": inline ? "inline" : "attachment",
+    "X-Content-Type-Options": "nosniff",
+    "Cache-Control": "private, max-age=31536000, immutable",
+  });
+});
+
+// Restore a session from a JSON bundle produced by the export route
+app.post("/api/sessions/import", async (c) => {
+  let bundle: unknown;
+  try {
+    bundle = await c.req.json();
+  } catch {
+    return c.json({ error: "Request body must be a JSON session bundle" }, 400);
+  }
+  try {
+    const session = await agentManager.importSessionBundle(bundle);
+    return c.json({ ok: true, sessionId: session.id });
+  } catch (err: unknown) {
+    return c.json({ error: err instanceof Error ? err.message : "import failed" }, 400);
+  }
+});
+
+// --- OpenCode Session Import ---
+
+app.get("/opencode-sessions", async (c) => {
+  try {
+    const sessions = await agentManager.listOpencodeSessions(c.req.query("cwd") || undefined);
+    return c.html(renderOpencodeSessionBrowser(sessions));
+  } catch (err: unknown) {
+    return c.html(renderOpencodeSessionBrowser([], err instanceof Error ? err.message : String(err)));
+  }
+});
+
+app.get("/api/opencode/sessions", async (c) => {
+  try {
+    const sessions = await agentManager.listOpencodeSessions(c.req.query("cwd") || undefined);
+    return c.json({ sessions });
+  } catch (err: unknown) {
+    return c.json({ error: err instanceof Error ? err.message : "Failed to list OpenCode sessions" }, 500);
+  }
+});
+
+app.post("/api/opencode/sessions/:id/adopt", async (c) => {
+  const sdkSessionId = c.req.param("id");
+  const body = await c.req.json<{ cwd?: string }>().catch(() => ({} as { cwd?: string }));
+  if (!body.cwd) return c.json({ error: "cwd required" }, 400);
+
+  if (!(await isInReposDir(body.cwd))) {
+    return c.json({ error: "cwd must be inside the repos directory" }, 400);
+  }
+  try {
+    const cwdStat = await stat(body.cwd);
+    if (!cwdStat.isDirectory()) {
+      return c.json({ error: "cwd must be a directory" }, 400);
+    }
+  } catch {
+    return c.json({ error: "cwd does not exist" }, 400);
+  }
+
+  try {
+    const session = await agentManager.adoptOpencodeSession(sdkSessionId, body.cwd);
+    return c.json({ ok: true, sessionId: session.id });
+  } catch (err: unknown) {
+    return c.json({ error: err instanceof Error ? err.message : "Failed to import OpenCode session" }, 500);
+  }
+});
+
+// --- Archive ---
+
+// Archived sessions browser fragment (HTMX swap)
+app.get("/archive", async (c) => {
+  const archived = await agentManager.getArchivedSessions();
+  return c.html(renderArchiveBrowser(archived));
+});
+
+app.get("/api/archive", async (c) => {
+  const archived = await agentManager.getArchivedSessions();
+  return c.json({ sessions: archived });
+});
+
+// Restore an archived session back into the active list
+app.post("/api/archive/:id/restore", async (c) => {
+  const id = c.req.param("id");
+  const session = await agentManager.restoreSession(id);
+  if (!session) return c.json({ error: "not found" }, 404);
+  return c.json({ ok: true, sessionId: session.id });
+});
+
+// Permanently delete an archived session
+app.delete("/api/archive/:id", async (c) => {
+  const id = c.req.param("id");
+  const deleted = await agentManager.deleteArchivedSession(id);
+  if (!deleted) return c.json({ error: "not found" }, 404);
+  return c.json({ ok: true });
+});
+
+// --- Permission Rules ---
+
+// Remembered "Always" approvals, for one repo when `cwd` is given
+app.get("/permission-rules", (c) => {
+  const cwd = c.req.query("cwd") || undefined;
+  return c.html(renderPermissionRules(agentManager.getPermissionRules(cwd), cwd));
+});
+
+app.get("/api/permission-rules", (c) => {
+  return c.json({ rules: agentManager.getPermissionRules(c.req.query("cwd") || undefined) });
+});
+
+app.delete("/api/permission-rules/:id", async (c) => {
+  const revoked = await agentManager.revokePermissionRule(c.req.param("id"));
+  if (!revoked) return c.json({ error: "not found" }, 404);
+  return c.json({ ok: true });
+});
+
 // --- Agent API ---
 
 const VALID_PERMISSION_MODES = new Set([
@@ -467,11 +733,12 @@ app.post("/api/agents/launch", async (c) => {
   try {
     const body = await c.req.json<{
       cwd: string;
+      backend?: AgentBackend;
       model?: string;
       modelProviderId?: string;
       permissionMode?: string;
     }>();
-    const { cwd, model, modelProviderId, permissionMode } = body;
+    const { cwd, backend, model, modelProviderId, permissionMode } = body;
     if (!cwd) return c.json({ error: "cwd required" }, 400);
 
     // Validate cwd exists and is a directory
@@ -489,6 +756,7 @@ app.post("/api/agents/launch", async (c) => {
     }
 
     const session = agentManager.createSession(cwd, {
+      backend,
       model,
       modelProviderId,
       permissionMode: permissionMode as any,
@@ -499,11 +767,98 @@ app.post("/api/agents/launch", async (c) => {
   }
 });
 
+// Reconcile a session's transcript with the OpenCode runtime
+app.post("/api/agents/:id/resync", async (c) => {
+  const id = c.req.param("id");
+  if (!agentManager.getSession(id)) return c.json({ error: "Session not found" }, 404);
+  try {
+    const result = await agentManager.resyncSession(id);
+    return c.json({ ok: true, ...result });
+  } catch (err: unknown) {
+    return c.json({ error: err instanceof Error ? err.message : "resync failed" }, 500);
+  }
+});
+
+// Summarize a session's history on its runtime to free up context
+app.post("/api/agents/:id/compact", async (c) => {
+  const id = c.req.param("id");
+  if (!agentManager.getSession(id)) return c.json({ error: "Session not found" }, 404);
+  try {
+    await agentManager.compactSession(id);
+    return c.json({ ok: true });
+  } catch (err: unknown) {
+    return c.json({ error: err instanceof Error ? err.message : "compaction failed" }, 500);
+  }
+});
+
+// Branch a new session from the history up to one of this session's messages
+app.post("/api/agents/:id/fork", async (c) => {
+  const id = c.req.param("id");
+  if (!agentManager.getSession(id)) return c.json({ error: "Session not found" }, 404);
+  const body = await c.req.json<{ messageId?: string }>().catch(() => ({} as { messageId?: string }));
+  if (!body.messageId) return c.json({ error: "messageId required" }, 400);
+  try {
+    const { session, text } = await agentManager.forkSession(id, body.messageId);
+    return c.json({ ok: true, sessionId: session.id, text });
+  } catch (err: unknown) {
+    return c.json({ error: err instanceof Error ? err.message : "fork failed" }, 500);
+  }
+});
+
+// Rewind a session to just before one of its user messages, reverting later file changes
+app.post("/api/agents/:id/revert", async (c) => {
+  const id = c.req.param("id");
+  if (!agentManager.getSession(id)) return c.json({ error: "Session not found" }, 404);
+  const body = await c.req.json<{ messageId?: string }>().catch(() => ({} as { messageId?: string }));
+  if (!body.messageId) return c.json({ error: "messageId required" }, 400);
+  try {
+    const result = await agentManager.rewindSession(id, body.messageId);
+    return c.json({ ok: true, ...result });
+  } catch (err: unknown) {
+    return c.json({ error: err instanceof Error ? err.message : "rewind failed" }, 500);
+  }
+});
+
+app.post("/api/agents/:id/unrevert", async (c) => {
+  const id = c.req.param("id");
+  if (!agentManager.getSession(id)) return c.json({ error: "Session not found" }, 404);
+  try {
+    await agentManager.undoRewind(id);
+    return c.json({ ok: true });
+  } catch (err: unknown) {
+    return c.json({ error: err instanceof Error ? err.message : "undo failed" }, 500);
+  }
+});
+
 app.get("/api/models", async (c) => {
   const models = await agentManager.getAvailableModels();
   return c.json(models);
 });
 
+// Repo files matching an @-mention in the message input
+app.get("/api/agents/:id/files", async (c) => {
+  const id = c.req.param("id");
+  if (!agentManager.getSession(id)) return c.json({ error: "Session not found" }, 404);
+  try {
+    const files = await agentManager.findFiles(id, c.req.query("query") ?? "");
+    return c.json({ files: files.slice(0, 50) });
+  } catch (err: unknown) {
+    return c.json({ error: err instanceof Error ? err.message : "file search failed" }, 500);
+  }
+});
+
+// Slash commands the session's runtime offers, for the message input's autocomplete
+app.get("/api/agents/:id/commands", async (c) => {
+  const id = c.req.param("id");
+  if (!agentManager.getSession(id)) return c.json({ error: "Session not found" }, 404);
+  try {
+    const commands = await agentManager.listCommands(id);
+    return c.json({ commands });
+  } catch (err: unknown) {
+    return c.json({ error: err instanceof Error ? err.message : "failed to list commands" }, 500);
+  }
+});
+
 // Send a follow-up message (supports multipart/form-data for file uploads)
 app.post("/api/agents/:id/message", async (c) => {
   try {
@@ -560,13 +915,13 @@ app.post("/api/agents/:id/message", async (c) => {
 app.post("/api/agents/:id/permission", async (c) => {
   try {
     const id = c.req.param("id");
-    const body = await c.req.json<{ allow: boolean; message?: string; toolUseId?: string }>();
+    const body = await c.req.json<{ allow: boolean; always?: boolean; message?: string; toolUseId?: string }>();
 
     if (typeof body.allow !== 'boolean') {
       return c.json({ error: "allow must be a boolean" }, 400);
     }
 
-    agentManager.respondToPermission(id, body.allow, body.message, body.toolUseId);
+    agentManager.respondToPermission(id, body.allow, body.message, body.toolUseId, body.always === true);
     return c.json({ ok: true });
   } catch (err: unknown) {
     return c.json({ error: err instanceof Error ? err.message : "failed" }, 500);
@@ -625,6 +980,32 @@ app.post("/api/agents/:id/mode", async (c) => {
   }
 });
 
+// Runtime agents the session can switch to
+app.get("/api/agents/:id/agents", async (c) => {
+  const id = c.req.param("id");
+  if (!agentManager.getSession(id)) return c.json({ error: "Session not found" }, 404);
+  try {
+    const agents = await agentManager.listAgents(id);
+    return c.json({ agents, current: agentManager.getSession(id)?.agent ?? null });
+  } catch (err: unknown) {
+    return c.json({ error: err instanceof Error ? err.message : "failed to list agents" }, 500);
+  }
+});
+
+// Pin the session to a runtime agent; a null agent follows the permission mode again
+app.post("/api/agents/:id/agent", async (c) => {
+  const id = c.req.param("id");
+  if (!agentManager.getSession(id)) return c.json({ error: "Session not found" }, 404);
+  const { agent } = await c.req.json<{ agent?: string | null }>().catch(() => ({} as { agent?: string | null }));
+  if (agent !== null && typeof agent !== "string") return c.json({ error: "agent required" }, 400);
+  try {
+    await agentManager.setSessionAgent(id, agent || null);
+    return c.json({ ok: true });
+  } catch (err: unknown) {
+    return c.json({ error: err instanceof Error ? err.message : "agent change failed" }, 500);
+  }
+});
+
 // Stop an agent
 app.post("/api/agents/:id/stop", async (c) => {
   const id = c.req.param("id");
@@ -637,7 +1018,8 @@ app.post("/api/agents/:id/stop", async (c) => {
 app.post("/api/agents/:id/model", async (c) => {
   try {
     const id = c.req.param("id");
-    const { model, modelProviderId } = await c.req.json<{
+    const { backend, model, modelProviderId } = await c.req.json<{
+      backend?: AgentBackend;
       model: string;
       modelProviderId?: string;
     }>();
@@ -650,6 +1032,7 @@ app.post("/api/agents/:id/model", async (c) => {
     if (!session) return c.json({ error: "session not found" }, 404);
 
     agentManager.setSessionModel(id, {
+      backend,
       model,
       modelProviderId,
     });
@@ -0,0 +1,553 @@
+import { Database } from "bun:sqlite";
+import type {
+  ArchivedSessionSummary,
+  PermissionRule,
+  PersistedMessage,
+  PersistedSession,
+  SearchHit,
+  SessionStorageUsage,
+} from "./types.ts";
+import type { SessionStore } from "./persistence.ts";
+
+// --- Schema Migrations ---
+
+// Each entry upgrades the schema by one version. PRAGMA user_version records
+// how many have been applied, so never edit or reorder an existing entry.
+type Migration = string | ((db: Database) => void);
+
+const MIGRATIONS: Migration[] = [
+  `CREATE TABLE sessions (
+    id TEXT PRIMARY KEY,
+    repo_name TEXT NOT NULL,
+    cwd TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    last_activity TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE messages (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL,
+    UNIQUE (session_id, id)
+  );
+  CREATE INDEX messages_session_seq ON messages (session_id, seq);
+  CREATE TABLE legacy_imports (
+    path TEXT PRIMARY KEY,
+    imported_at TEXT NOT NULL
+  );`,
+  (db) => {
+    db.exec(`ALTER TABLE messages ADD COLUMN search_text TEXT NOT NULL DEFAULT '';
+      CREATE VIRTUAL TABLE messages_fts USING fts5(search_text, content='messages', content_rowid='seq');
+      CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts (rowid, search_text) VALUES (new.seq, new.search_text);
+      END;
+      CREATE TRIGGER messages_fts_delete AFTER DELETE ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, search_text) VALUES ('delete', old.seq, old.search_text);
+      END;
+      CREATE TRIGGER messages_fts_update AFTER UPDATE OF search_text ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, search_text) VALUES ('delete', old.seq, old.search_text);
+        INSERT INTO messages_fts (rowid, search_text) VALUES (new.seq, new.search_text);
+      END;`);
+    // Backfill the index for messages written before search existed
+    const rows = db.query<{ seq: number; data: string }, []>("SELECT seq, data FROM messages").all();
+    const update = db.query("UPDATE messages SET search_text = ?1 WHERE seq = ?2");
+    for (const row of rows) {
+      update.run(messageSearchText(JSON.parse(row.data) as PersistedMessage), row.seq);
+    }
+  },
+  `ALTER TABLE sessions ADD COLUMN archived_at TEXT;
+  CREATE INDEX sessions_archived_at ON sessions (archived_at);`,
+  `CREATE TABLE attachments (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    data BLOB NOT NULL
+  );
+  CREATE INDEX attachments_session ON attachments (session_id);`,
+  `CREATE TABLE permission_rules (
+    id TEXT PRIMARY KEY,
+    cwd TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX permission_rules_cwd ON permission_rules (cwd);`,
+];
+
+function migrate(db: Database): void {
+  const { user_version: current } = db.query<{ user_version: number }, []>("PRAGMA user_version").get()!;
+  for (let version = current; version < MIGRATIONS.length; version++) {
+    const migration = MIGRATIONS[version]!;
+    db.transaction(() => {
+      if (typeof migration === "string") {
+        db.exec(migration);
+      } else {
+        migration(db);
+      }
+      db.exec(`PRAGMA user_version = ${version + 1}`);
+    })();
+    console.log(`[persistence] migrated session store to schema v${version + 1}`);
+  }
+}
+
+// --- Search Indexing ---
+
+const SNIPPET_MATCH_START = "\u0001";
+const SNIPPET_MATCH_END = "\u0002";
+
+function stringifyForSearch(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return "";
+  }
+}
+
+/** Flattens everything a user might search for in a message into one indexable string. */
+export function messageSearchText(message: PersistedMessage): string {
+  const parts: string[] = [];
+  if (message.userText) parts.push(message.userText);
+  else if (message.text) parts.push(message.text);
+
+  for (const block of message.contentBlocks ?? []) {
+    if (block.text) parts.push(block.text);
+    if (block.toolName) parts.push(block.toolName);
+    if (block.toolInput !== undefined) parts.push(stringifyForSearch(block.toolInput));
+    if (block.content) parts.push(block.content);
+  }
+
+  if (message.permissionData) {
+    parts.push(message.permissionData.toolName, stringifyForSearch(message.permissionData.toolInput));
+  }
+  if (message.questionData) {
+    for (const q of message.questionData.questions) parts.push(q.question);
+    if (message.questionData.answerSummary) parts.push(message.questionData.answerSummary);
+  }
+  if (message.planApprovalData?.planContent) {
+    parts.push(message.planApprovalData.planContent);
+  }
+  for (const attachment of message.attachments ?? []) {
+    parts.push(attachment.name);
+  }
+
+  return parts.filter(Boolean).join("\n");
+}
+
+/** Turns free-form user input into an FTS5 query that can't raise a syntax error. */
+function buildMatchQuery(query: string): string | null {
+  const terms = query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, "").trim())
+    .filter(Boolean);
+  if (terms.length === 0) return null;
+  return terms.map((term) => `"${term}"*`).join(" ");
+}
+
+/** Extracts the highlighted ranges from an FTS5 snippet built with the marker characters above. */
+function parseSnippet(snippet: string): SearchHit["snippet"] {
+  const segments: SearchHit["snippet"] = [];
+  const pattern = new RegExp(`${SNIPPET_MATCH_START}([^${SNIPPET_MATCH_END}]*)${SNIPPET_MATCH_END}`, "g");
+  let lastIndex = 0;
+  for (const match of snippet.matchAll(pattern)) {
+    if (match.index > lastIndex) {
+      segments.push({ text: snippet.slice(lastIndex, match.index), match: false });
+    }
+    segments.push({ text: match[1] ?? "", match: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < snippet.length) {
+    segments.push({ text: snippet.slice(lastIndex), match: false });
+  }
+  return segments;
+}
+
+/**
+ * Returns true when the database at `path` opens and passes SQLite's quick integrity check.
+ * Unreadable files (truncated writes, garbage headers) count as failures rather than throwing.
+ */
+export function checkDatabaseIntegrity(path: string, readonly = false): boolean {
+  let db: Database | null = null;
+  try {
+    db = readonly ? new Database(path, { readonly: true }) : new Database(path);
+    const row = db.query("PRAGMA quick_check").get() as { quick_check: string } | null;
+    return row?.quick_check === "ok";
+  } catch {
+    return false;
+  } finally {
+    db?.close();
+  }
+}
+
+/**
+ * Reads every session, active and archived, from another session database without changing
+ * it: the file is opened read-only and its schema is left at whatever version it has.
+ */
+export function readSessionDatabase(path: string): { session: PersistedSession; archived: boolean }[] {
+  const db = new Database(path, { readonly: true });
+  try {
+    const hasArchive = db.query<{ name: string }, []>("PRAGMA table_info(sessions)").all()
+      .some((column) => column.name === "archived_at");
+    const sessionRows = db.query<{ id: string; data: string; archived_at: string | null }, []>(
+      `SELECT id, data, ${hasArchive ? "archived_at" : "NULL AS archived_at"} FROM sessions`
+    ).all();
+    const messageRows = db.query<MessageRow, []>("SELECT session_id, id, data FROM messages ORDER BY seq").all();
+
+    const messagesBySession = new Map<string, PersistedMessage[]>();
+    for (const row of messageRows) {
+      try {
+        const list = messagesBySession.get(row.session_id) ?? [];
+        list.push(JSON.parse(row.data) as PersistedMessage);
+        messagesBySession.set(row.session_id, list);
+      } catch (err) {
+        console.warn(`[persistence] skipping unreadable message row: ${row.session_id}/${row.id}`, err);
+      }
+    }
+
+    const sessions: { session: PersistedSession; archived: boolean }[] = [];
+    for (const row of sessionRows) {
+      try {
+        const meta = JSON.parse(row.data) as Omit<PersistedSession, "messages">;
+        sessions.push({ session: { ...meta, messages: messagesBySession.get(row.id) ?? [] }, archived: row.archived_at !== null });
+      } catch (err) {
+        console.warn(`[persistence] skipping unreadable session row: ${row.id}`, err);
+      }
+    }
+    return sessions;
+  } finally {
+    db.close();
+  }
+}
+
+type SessionRow = { data: string };
+type MessageRow = { session_id: string; id: string; data: string };
+type MessageHash = number | bigint;
+
+// --- SqliteSessionStore ---
+
+export class SqliteSessionStore implements SessionStore {
+  private db: Database;
+  // Hash of the last written form of each message in a session's in-memory window, keyed by
+  // session then message id. Lets saves skip unchanged messages instead of rewriting the whole
+  // transcript; only the messages of the latest save are tracked.
+  private writtenMessages = new Map<string, Map<string, MessageHash>>();
+
+  constructor(path: string) {
+    this.db = new Database(path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec("PRAGMA foreign_keys = ON");
+    migrate(this.db);
+  }
+
+  async save(session: PersistedSession): Promise<void> {
+    const { messages, ...meta } = session;
+    const previous = this.writtenMessages.get(session.id);
+    const written = new Map<string, MessageHash>();
+
+    const upsertSession = this.db.query(
+      `INSERT INTO sessions (id, repo_name, cwd, created_at, last_activity, data)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6)
+       ON CONFLICT (id) DO UPDATE SET
+         repo_name = excluded.repo_name,
+         cwd = excluded.cwd,
+         last_activity = excluded.last_activity,
+         data = excluded.data`
+    );
+    const insertMessage = this.db.query(
+      `INSERT INTO messages (session_id, id, type, timestamp, data, search_text)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6)
+       ON CONFLICT (session_id, id) DO UPDATE SET
+         type = excluded.type,
+         timestamp = excluded.timestamp,
+         data = excluded.data,
+         search_text = excluded.search_text`
+    );
+
+    this.db.transaction(() => {
+      upsertSession.run(session.id, session.repoName, session.cwd, session.createdAt, session.lastActivity, JSON.stringify(meta));
+      for (const message of messages) {
+        const data = JSON.stringify(message);
+        const hash = Bun.hash(data);
+        written.set(message.id, hash);
+        if (previous?.get(message.id) === hash) continue;
+        insertMessage.run(session.id, message.id, message.type, message.timestamp, data, messageSearchText(message));
+      }
+    })();
+
+    this.writtenMessages.set(session.id, written);
+  }
+
+  /** Active sessions, each with only its latest `messageLimit` messages; older ones are paged in on demand. */
+  async loadAll(messageLimit: number): Promise<PersistedSession[]> {
+    const sessionRows = this.db.query<SessionRow & { id: string }, []>(
+      "SELECT id, data FROM sessions WHERE archived_at IS NULL"
+    ).all();
+    const messageRows = this.db.query<MessageRow, [number]>(
+      `SELECT session_id, id, data FROM messages
+       WHERE seq IN (
+         SELECT seq FROM (
+           SELECT m.seq, ROW_NUMBER() OVER (PARTITION BY m.session_id ORDER BY m.seq DESC) AS recency
+           FROM messages m
+           JOIN sessions s ON s.id = m.session_id
+           WHERE s.archived_at IS NULL
+         )
+         WHERE recency <= ?1
+       )
+       ORDER BY seq`
+    ).all(messageLimit);
+
+    const messagesBySession = new Map<string, PersistedMessage[]>();
+    for (const row of messageRows) {
+      let message: PersistedMessage;
+      try {
+        message = JSON.parse(row.data) as PersistedMessage;
+      } catch (err) {
+        console.warn(`[persistence] skipping unreadable message row: ${row.session_id}/${row.id}`, err);
+        continue;
+      }
+      const list = messagesBySession.get(row.session_id) ?? [];
+      list.push(message);
+      messagesBySession.set(row.session_id, list);
+      this.rememberWritten(row);
+    }
+
+    const sessions: PersistedSession[] = [];
+    for (const row of sessionRows) {
+      try {
+        const meta = JSON.parse(row.data) as Omit<PersistedSession, "messages">;
+        sessions.push({ ...meta, messages: messagesBySession.get(row.id) ?? [] });
+      } catch (err) {
+        console.warn(`[persistence] skipping unreadable session row: ${row.id}`, err);
+      }
+    }
+    return sessions;
+  }
+
+  async load(sessionId: string): Promise<PersistedSession | null> {
+    const row = this.db.query<SessionRow, [string]>("SELECT data FROM sessions WHERE id = ?1").get(sessionId);
+    if (!row) return null;
+    const messageRows = this.db.query<MessageRow, [string]>(
+      "SELECT session_id, id, data FROM messages WHERE session_id = ?1 ORDER BY seq"
+    ).all(sessionId);
+    for (const messageRow of messageRows) {
+      this.rememberWritten(messageRow);
+    }
+    const meta = JSON.parse(row.data) as Omit<PersistedSession, "messages">;
+    return { ...meta, messages: messageRows.map((messageRow) => JSON.parse(messageRow.data) as PersistedMessage) };
+  }
+
+  async archive(sessionId: string): Promise<void> {
+    this.db.query("UPDATE sessions SET archived_at = ?2 WHERE id = ?1").run(sessionId, new Date().toISOString());
+    this.writtenMessages.delete(sessionId);
+  }
+
+  async unarchive(sessionId: string): Promise<void> {
+    this.db.query("UPDATE sessions SET archived_at = NULL WHERE id = ?1").run(sessionId);
+  }
+
+  async listArchived(): Promise<ArchivedSessionSummary[]> {
+    const rows = this.db.query<SessionRow & { archived_at: string; message_count: number }, []>(
+      `SELECT s.data, s.archived_at,
+         (SELECT COUNT(*) FROM messages m WHERE m.session_id = s.id) AS message_count
+       FROM sessions s
+       WHERE s.archived_at IS NOT NULL
+       ORDER BY s.archived_at DESC`
+    ).all();
+
+    const summaries: ArchivedSessionSummary[] = [];
+    for (const row of rows) {
+      try {
+        const meta = JSON.parse(row.data) as Omit<PersistedSession, "messages">;
+        summaries.push({ ...meta, archivedAt: row.archived_at, messageCount: row.message_count });
+      } catch (err) {
+        console.warn("[persistence] skipping unreadable archived session row", err);
+      }
+    }
+    return summaries;
+  }
+
+  async search(query: string, limit: number): Promise<SearchHit[]> {
+    const match = buildMatchQuery(query);
+    if (!match) return [];
+    const rows = this.db.query<{
+      session_id: string;
+      id: string;
+      type: PersistedMessage["type"];
+      timestamp: string;
+      repo_name: string;
+      archived_at: string | null;
+      snippet: string;
+    }, [string, number]>(
+      `SELECT m.session_id, m.id, m.type, m.timestamp, s.repo_name, s.archived_at,
+         snippet(messages_fts, 0, '${SNIPPET_MATCH_START}', '${SNIPPET_MATCH_END}', '…', 16) AS snippet
+       FROM messages_fts
+       JOIN messages m ON m.seq = messages_fts.rowid
+       JOIN sessions s ON s.id = m.session_id
+       WHERE messages_fts MATCH ?1
+       ORDER BY rank
+       LIMIT ?2`
+    ).all(match, limit);
+
+    return rows.map((row) => ({
+      sessionId: row.session_id,
+      messageId: row.id,
+      messageType: row.type,
+      timestamp: row.timestamp,
+      repoName: row.repo_name,
+      archived: row.archived_at !== null,
+      snippet: parseSnippet(row.snippet),
+    }));
+  }
+
+  async loadMessagesFrom(sessionId: string, messageId: string): Promise<PersistedMessage[]> {
+    const rows = this.db.query<{ data: string }, [string, string]>(
+      `SELECT data FROM messages
+       WHERE session_id = ?1
+         AND seq >= (SELECT seq FROM messages WHERE session_id = ?1 AND id = ?2)
+       ORDER BY seq`
+    ).all(sessionId, messageId);
+    return rows.map((row) => JSON.parse(row.data) as PersistedMessage);
+  }
+
+  async loadMessagesBefore(sessionId: string, messageId: string, limit: number): Promise<PersistedMessage[]> {
+    const rows = this.db.query<{ data: string }, [string, string, number]>(
+      `SELECT data FROM messages
+       WHERE session_id = ?1
+         AND seq < (SELECT seq FROM messages WHERE session_id = ?1 AND id = ?2)
+       ORDER BY seq DESC
+       LIMIT ?3`
+    ).all(sessionId, messageId, limit);
+    return rows.reverse().map((row) => JSON.parse(row.data) as PersistedMessage);
+  }
+
+  async usage(): Promise<SessionStorageUsage[]> {
+    const rows = this.db.query<{
+      id: string;
+      repo_name: string;
+      last_activity: string;
+      archived_at: string | null;
+      message_count: number;
+      bytes: number;
+    }, []>(
+      `SELECT s.id, s.repo_name, s.last_activity, s.archived_at,
+         COUNT(m.seq) AS message_count,
+         length(s.data) + COALESCE(SUM(length(m.data)), 0)
+           + COALESCE((SELECT SUM(length(a.data)) FROM attachments a WHERE a.session_id = s.id), 0) AS bytes
+       FROM sessions s
+       LEFT JOIN messages m ON m.session_id = s.id
+       GROUP BY s.id
+       ORDER BY bytes DESC`
+    ).all();
+    return rows.map((row) => ({
+      sessionId: row.id,
+      repoName: row.repo_name,
+      lastActivity: row.last_activity,
+      archived: row.archived_at !== null,
+      messageCount: row.message_count,
+      bytes: row.bytes,
+    }));
+  }
+
+  async deleteMessages(sessionId: string, messageIds: string[]): Promise<void> {
+    const written = this.writtenMessages.get(sessionId);
+    const deleteMessage = this.db.query("DELETE FROM messages WHERE session_id = ?1 AND id = ?2");
+    this.db.transaction(() => {
+      for (const id of messageIds) {
+        deleteMessage.run(sessionId, id);
+        written?.delete(id);
+      }
+    })();
+  }
+
+  /** Reinserts the whole transcript so `seq` follows the given order; the session row must exist. */
+  async replaceMessages(sessionId: string, messages: PersistedMessage[]): Promise<void> {
+    const written = new Map<string, MessageHash>();
+    const insertMessage = this.db.query(
+      `INSERT INTO messages (session_id, id, type, timestamp, data, search_text)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6)`
+    );
+    this.db.transaction(() => {
+      this.db.query("DELETE FROM messages WHERE session_id = ?1").run(sessionId);
+      for (const message of messages) {
+        const data = JSON.stringify(message);
+        written.set(message.id, Bun.hash(data));
+        insertMessage.run(sessionId, message.id, message.type, message.timestamp, data, messageSearchText(message));
+      }
+    })();
+    this.writtenMessages.set(sessionId, written);
+  }
+
+  async saveAttachment(sessionId: string, attachmentId: string, type: string, data: Uint8Array): Promise<void> {
+    this.db.query("INSERT OR REPLACE INTO attachments (id, session_id, type, data) VALUES (?1, ?2, ?3, ?4)")
+      .run(attachmentId, sessionId, type, data);
+  }
+
+  async loadAttachment(attachmentId: string): Promise<{ type: string; data: Uint8Array<ArrayBuffer> } | null> {
+    return this.db.query<{ type: string; data: Uint8Array<ArrayBuffer> }, [string]>(
+      "SELECT type, data FROM attachments WHERE id = ?1"
+    ).get(attachmentId);
+  }
+
+  async listPermissionRules(): Promise<PermissionRule[]> {
+    return this.db.query<{ data: string }, []>("SELECT data FROM permission_rules ORDER BY cwd, rowid")
+      .all()
+      .map((row) => JSON.parse(row.data) as PermissionRule);
+  }
+
+  async savePermissionRule(rule: PermissionRule): Promise<void> {
+    this.db.query("INSERT OR REPLACE INTO permission_rules (id, cwd, data) VALUES (?1, ?2, ?3)")
+      .run(rule.id, rule.cwd, JSON.stringify(rule));
+  }
+
+  async deletePermissionRule(ruleId: string): Promise<boolean> {
+    return this.db.query("DELETE FROM permission_rules WHERE id = ?1").run(ruleId).changes > 0;
+  }
+
+  /**
+   * Rebuilds the database file so space freed by deletions is returned to the filesystem.
+   * Skipped while fewer than `minFreeBytes` sit on the freelist, since VACUUM rewrites the whole file.
+   */
+  async compact(minFreeBytes = 0): Promise<void> {
+    if (minFreeBytes > 0) {
+      const { freelist_count } = this.db.query<{ freelist_count: number }, []>("PRAGMA freelist_count").get()!;
+      const { page_size } = this.db.query<{ page_size: number }, []>("PRAGMA page_size").get()!;
+      if (freelist_count * page_size < minFreeBytes) return;
+    }
+    this.db.exec("VACUUM");
+  }
+
+  async has(sessionId: string): Promise<boolean> {
+    return this.db.query("SELECT 1 FROM sessions WHERE id = ?1").get(sessionId) !== null;
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.db.query("DELETE FROM sessions WHERE id = ?1").run(sessionId);
+    this.writtenMessages.delete(sessionId);
+  }
+
+  async isImported(path: string): Promise<boolean> {
+    return this.db.query("SELECT 1 FROM legacy_imports WHERE path = ?1").get(path) !== null;
+  }
+
+  async markImported(path: string): Promise<void> {
+    this.db.query("INSERT OR REPLACE INTO legacy_imports (path, imported_at) VALUES (?1, ?2)")
+      .run(path, new Date().toISOString());
+  }
+
+  /** Writes a consistent snapshot of the whole database to `path`, which must not exist yet. */
+  async backup(path: string): Promise<void> {
+    this.db.query("VACUUM INTO ?1").run(path);
+  }
+
+  private rememberWritten(row: MessageRow): void {
+    const written = this.writtenMessages.get(row.session_id) ?? new Map<string, MessageHash>();
+    written.set(row.id, Bun.hash(row.data));
+    this.writtenMessages.set(row.session_id, written);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,57 @@
+import type { ArchivedSessionSummary } from "../types.ts";
+import { escapeHtml, escapeJs, relativeTimeAgo, formatTokens } from "./components.ts";
+
+export function renderArchiveBrowser(archived: ArchivedSessionSummary[]): string {
+  const groups = new Map<string, ArchivedSessionSummary[]>();
+  for (const summary of archived) {
+    const existing = groups.get(summary.repoName) ?? [];
+    existing.push(summary);
+    groups.set(summary.repoName, existing);
+  }
+
+  let groupsHtml = "";
+  for (const [repoName, summaries] of [...groups.entries()].sort((a, b) => a[0].localeCompare(b[0]))) {
+    const rows = summaries.map((summary) => {
+      const totalTokens = summary.inputTokens + summary.outputTokens;
+      return `<div class="archive-row" data-archived-session-id="${escapeHtml(summary.id)}">
+        <div class="archive-row-main">
+          <div class="archive-row-meta">
+            <span class="archive-row-slug">${escapeHtml(summary.id.slice(0, 8))}</span>
+            <span class="archive-row-stat">${summary.messageCount} message${summary.messageCount !== 1 ? "s" : ""}</span>
+            <span class="archive-row-stat">${formatTokens(totalTokens)}</span>
+            <span class="archive-row-stat" title="Archived ${escapeHtml(summary.archivedAt)}">archived ${relativeTimeAgo(new Date(summary.archivedAt))}</span>
+          </div>
+          <div class="archive-row-preview">${escapeHtml(summary.lastMessagePreview || "No messages yet")}</div>
+        </div>
+        <div class="archive-row-actions">
+          <a class="btn" href="/sessions/${encodeURIComponent(summary.id)}/export?format=json" download title="Download a JSON bundle">Export</a>
+          <button class="btn" onclick="restoreArchivedSession('${escapeJs(summary.id)}')">Restore</button>
+          <button class="btn btn--danger" onclick="deleteArchivedSession('${escapeJs(summary.id)}')">Delete</button>
+        </div>
+      </div>`;
+    }).join("");
+
+    groupsHtml += `<div class="archive-group">
+      <div class="archive-group-header">
+        <span>${escapeHtml(repoName)}</span>
+        <span class="archive-group-count">${summaries.length}</span>
+      </div>
+      ${rows}
+    </div>`;
+  }
+
+  return `<div class="archive-browser">
+    <div class="session-header">
+      <span class="session-header-repo">Archived sessions</span>
+      <span class="session-header-slug">${archived.length} session${archived.length !== 1 ? "s" : ""}</span>
+      <span class="session-header-spacer"></span>
+      <label class="btn btn--ghost" title="Import a session exported as a JSON bundle">
+        Import bundle
+        <input type="file" accept="application/json,.json" class="hidden" onchange="importSessionBundle(this)">
+      </label>
+    </div>
+    <div class="archive-list">
+      ${groupsHtml || `<div class="archive-empty">Dismissed sessions are archived here. Nothing archived yet.</div>`}
+    </div>
+  </div>`;
+}
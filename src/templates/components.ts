@@ -1,4 +1,4 @@
-import type { AgentSession, AgentStatus, AgentMessage, ContentBlock, PendingQuestion, PermissionMode, SessionDiffEntry, SessionViewMode } from "../types.ts";
+import type { AgentSession, AgentStatus, AgentMessage, Attachment, BackendInfo, ContentBlock, PendingQuestion, PermissionMode, SessionDiffEntry, SessionViewMode } from "../types.ts";
 import { renderMarkdown } from "../markdown.ts";
 
 function truncateJson(input: unknown, limit = 500): string {
@@ -93,13 +93,19 @@ export function relativeTime(date: Date): string {
   return `${Math.floor(hours / 24)}d`;
 }
 
+// For prose such as "archived 5m ago"; `relativeTime` alone reads "now" for recent times
+export function relativeTimeAgo(date: Date): string {
+  const time = relativeTime(date);
+  return time === "now" ? "just now" : `${time} ago`;
+}
+
 export function formatTokens(tokens: number): string {
   if (tokens < 1000) return `${tokens} tok`;
   if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k tok`;
   return `${(tokens / 1_000_000).toFixed(1)}M tok`;
 }
 
-function formatDuration(ms: number): string {
+export function formatDuration(ms: number): string {
   const seconds = Math.floor(ms / 1000);
   if (seconds < 60) return `${seconds}s`;
   const minutes = Math.floor(seconds / 60);
@@ -107,7 +113,7 @@ function formatDuration(ms: number): string {
   return `${minutes}m ${remainingSeconds}s`;
 }
 
-function formatCost(usd: number): string {
+export function formatCost(usd: number): string {
   if (usd === 0) return "";
   if (usd < 0.01) return `$${usd.toFixed(4)}`;
   return `$${usd.toFixed(2)}`;
@@ -129,7 +135,7 @@ function truncatePreview(str: string, max = 80): string {
   return collapsed.slice(0, max) + "...";
 }
 
-function getToolPreview(toolName: string, toolInput: Record<string, any> | null | undefined): string {
+export function getToolPreview(toolName: string, toolInput: Record<string, any> | null | undefined): string {
   if (!toolInput) return "";
   const inp = toolInput;
 
@@ -191,7 +197,7 @@ function getToolPreview(toolName: string, toolInput: Record<string, any> | null
 
 // --- Session Header Status ---
 
-export function renderSessionHeaderStatus(session: AgentSession, viewMode: SessionViewMode = "normal"): string {
+export function renderSessionHeaderStatus(session: AgentSession, backend: BackendInfo, viewMode: SessionViewMode = "normal"): string {
   const isActive = session.status === "streaming" || session.status === "starting";
   const timerTs = (isActive && session.turnStartedAt ? session.turnStartedAt : session.lastActivity).toISOString();
   return `${statusBadge(session.status)}
@@ -202,6 +208,18 @@ export function renderSessionHeaderStatus(session: AgentSession, viewMode: Sessi
     <button class="btn btn--ghost ${viewMode === 'raw' ? 'btn--active' : ''}" data-view-button="raw" onclick="toggleRawMode('${session.id}')" title="Toggle raw transcript">Raw</button>
     <button class="btn btn--ghost ${viewMode === 'diff' ? 'btn--active' : ''}" data-view-button="diff" onclick="toggleDiffMode('${session.id}')" title="Toggle diff summary">Diff</button>
     <button class="btn btn--ghost" onclick="focusEditor('${session.id}')" title="Open in editor">Editor</button>
+    ${session.sdkSessionId && !isActive ? `<button class="btn btn--ghost" onclick="compactSession('${session.id}')" title="Summarize the conversation to free up context">Compact</button>` : ""}
+    ${session.revert ? `<button class="btn btn--ghost" onclick="undoRewind('${session.id}')" title="Restore the rewound messages and file changes">Undo rewind</button>` : ""}
+    <button class="btn btn--ghost" onclick="showPermissionRules('${escapeJs(session.cwd)}')" title="Approvals remembered for this repo">Rules</button>
+    ${session.sdkSessionId ? `<button class="btn btn--ghost" onclick="resyncSession('${session.id}')" title="Reload the transcript from ${escapeHtml(backend.label)}">Resync</button>` : ""}
+    <details class="export-menu">
+      <summary class="btn btn--ghost" title="Export transcript">Export</summary>
+      <div class="export-menu-list">
+        <a href="/sessions/${session.id}/export?format=md" download>Markdown</a>
+        <a href="/sessions/${session.id}/export?format=html" download>HTML</a>
+        <a href="/sessions/${session.id}/export?format=json" download>JSON bundle</a>
+      </div>
+    </details>
     ${isActive ? `<button class="btn btn--ghost" onclick="stopAgent('${session.id}')" title="Stop agent">Stop</button>` : ""}`;
 }
 
@@ -219,7 +237,7 @@ function friendlyModelName(session: AgentSession): string {
 
 // --- Session Stats ---
 
-export function renderSessionStats(session: AgentSession): string {
+export function renderSessionStats(session: AgentSession, backend: BackendInfo): string {
   const totalTokens = session.inputTokens + session.outputTokens;
   const cost = formatCost(session.totalCostUsd);
   const currentMode = session.permissionMode === 'default' ? 'plan' : (session.permissionMode || 'plan');
@@ -229,12 +247,20 @@ export function renderSessionStats(session: AgentSession): string {
   const modeAttrs = `data-session-id="${session.id}" data-action="cycle-mode" title="${escapeHtml(modeTooltip(session.permissionMode))} (alt+tab)"`;
   // Model is clickable only before first message is sent
   const modelClass = hasMessages ? "stat" : "stat model-stat--interactive";
-  const modelDataAttrs = hasMessages ? "" : `data-session-id="${session.id}" data-action="show-model-picker" data-current-model="${escapeHtml(session.model)}" data-current-provider-id="${escapeHtml(session.modelProviderId || "")}"`;
+  const modelDataAttrs = hasMessages ? "" : `data-session-id="${session.id}" data-action="show-model-picker" data-current-backend="${escapeHtml(session.backend)}" data-current-model="${escapeHtml(session.model)}" data-current-provider-id="${escapeHtml(session.modelProviderId || "")}"`;
   const modelTitle = hasMessages ? "" : "Click to change model (before first message)";
+  const agentTitle = session.agent
+    ? `Runtime agent: ${session.agent}. Click to change`
+    : "Runtime agent follows the permission mode. Click to choose one";
+  const agentStat = backend.canSwitchAgents
+    ? `<span class="stat agent-stat--interactive${session.agent ? "" : " agent-stat--auto"}" data-session-id="${session.id}" data-action="show-agent-picker" title="${escapeHtml(agentTitle)}">${escapeHtml(session.agent ?? "auto agent")}</span>
+    <span class="stat-sep">·</span>`
+    : "";
   return `<div class="stats-row">
     <span class="${modeClass}" ${modeAttrs}>${escapeHtml(modeLabel(session.permissionMode))}</span>
     <span class="stat-sep">·</span>
-    <span class="stat" title="OpenCode SDK session">OpenCode</span>
+    ${agentStat}
+    <span class="stat" title="Agent runtime">${escapeHtml(backend.label)}</span>
     <span class="stat-sep">·</span>
     <span class="stat">${formatTokens(totalTokens)}</span>
     <span class="stat-sep">·</span>
@@ -300,16 +326,17 @@ export function renderQuestionPrompt(pending: PendingQuestion, sessionId: string
 
 // --- Message Rendering ---
 
-export function renderMessage(msg: AgentMessage): string | null {
+/** Without `backend` (e.g. in exports) messages render without fork and rewind actions. */
+export function renderMessage(msg: AgentMessage, backend?: BackendInfo): string | null {
   if (msg.permissionData) return renderPermissionMessage(msg);
   if (msg.questionData) return renderQuestionMessage(msg);
   if (msg.planApprovalData) return renderPlanApprovalMessage(msg);
 
   switch (msg.type) {
     case "user":
-      return renderUserMessage(msg);
+      return renderUserMessage(msg, backend);
     case "assistant":
-      return renderAssistantMessage(msg);
+      return renderAssistantMessage(msg, backend);
     case "result":
       return renderResultMessage(msg);
     case "system":
@@ -340,6 +367,7 @@ function renderPermissionMessage(msg: AgentMessage): string {
         <span class="tool-name">${escapeHtml(pd.toolName)}</span>
         ${preview ? `<span class="tool-preview">${escapeHtml(preview)}</span>` : ""}
         <span class="badge badge--uppercase ${badgeClass}">${label}</span>
+        ${pd.decidedBy ? `<span class="permission-decided-by">${escapeHtml(pd.decidedBy)}</span>` : ""}
       </div>
     </div>`;
   }
@@ -363,6 +391,7 @@ function renderPermissionMessage(msg: AgentMessage): string {
         <pre class="permission-prompt-input">${escapeHtml(displayInput)}</pre>
         <div class="permission-prompt-actions">
           <button class="btn btn--primary" onclick="approvePermission('${escapeJs(sid)}', '${escapeJs(toolUseId)}')">Allow</button>
+          <button class="btn" onclick="approvePermission('${escapeJs(sid)}', '${escapeJs(toolUseId)}', true)" title="Allow, and approve matching requests in this repo from now on">Always</button>
           <button class="btn" onclick="showDenyInput('${escapeJs(sid)}', '${escapeJs(toolUseId)}', this)">Deny</button>
         </div>
         <div class="deny-input-row" id="deny-row-${escapeHtml(toolUseId)}" style="display:none">
@@ -479,7 +508,23 @@ function renderPlanApprovalMessage(msg: AgentMessage): string {
   </div>`;
 }
 
-function renderUserMessage(msg: AgentMessage): string {
+// Hover actions; the client finds the message and session from the surrounding elements
+function renderMessageActions(isUserMessage: boolean, backend?: BackendInfo): string {
+  const canFork = backend?.canFork ?? false;
+  const canRewind = isUserMessage && (backend?.canRewind ?? false);
+  if (!canFork && !canRewind) return "";
+  return `<div class="message-actions">
+      ${canFork ? `<button class="message-action" onclick="forkFromMessage(this)" title="${isUserMessage ? "Start a new session from just before this message" : "Start a new session from the conversation up to here"}">Fork</button>` : ""}
+      ${canRewind ? `<button class="message-action" onclick="rewindToMessage(this)" title="Undo this turn and everything after it">Rewind to here</button>` : ""}
+    </div>`;
+}
+
+// Older messages carry their bytes inline; newer ones are served from the attachment store
+function attachmentUrl(att: Attachment): string {
+  return att.data ? `data:${att.type};base64,${att.data}` : `/attachments/${encodeURIComponent(att.id)}`;
+}
+
+function renderUserMessage(msg: AgentMessage, backend?: BackendInfo): string {
   const text = msg.userText ?? msg.text ?? "";
   const hasAttachments = msg.attachments && msg.attachments.length > 0;
   if (!text.trim() && !hasAttachments) return "";
@@ -488,30 +533,35 @@ function renderUserMessage(msg: AgentMessage): string {
   if (hasAttachments) {
     attachmentsHtml = `<div class="message-attachments">`;
     for (const att of msg.attachments!) {
-      if (att.type.startsWith("image/")) {
-        attachmentsHtml += `<div class="attachment attachment--image" onclick="openImageLightbox('${escapeJs(att.data)}')">
-          <img src="data:${escapeHtml(att.type)};base64,${escapeHtml(att.data)}" alt="${escapeHtml(att.name)}">
+      const url = attachmentUrl(att);
+      // SVGs can carry script, so the attachment route only serves them as downloads
+      if (att.type.startsWith("image/") && att.type !== "image/svg+xml") {
+        attachmentsHtml += `<div class="attachment attachment--image" onclick="openAttachmentLightbox('${escapeJs(url)}')" title="${escapeHtml(att.name)}">
+          <img src="${escapeHtml(url)}" alt="${escapeHtml(att.name)}" loading="lazy">
         </div>`;
       } else {
         const isPdf = att.type === "application/pdf";
         const sizeKb = Math.round(att.size / 1024);
-        attachmentsHtml += `<div class="attachment attachment--file${isPdf ? " attachment--pdf" : ""}">
+        attachmentsHtml += `<a class="attachment attachment--file${isPdf ? " attachment--pdf" : ""}" href="${escapeHtml(url)}" download="${escapeHtml(att.name)}">
           <span class="attachment-file-icon">${isPdf ? "📑" : "📄"}</span>
           <span class="attachment-file-name">${escapeHtml(att.name)}</span>
           <span class="attachment-file-size">${sizeKb} KB</span>
-        </div>`;
+        </a>`;
       }
     }
     attachmentsHtml += `</div>`;
   }
 
   const trimmedText = text.trim();
-  return `<div class="message message--user" id="${msg.id}" data-id="${msg.id}" title="User">
+  // `!` messages ran in the session's shell; the output follows as a tool block
+  const isShell = trimmedText.startsWith("!");
+  return `<div class="message message--user${isShell ? " message--shell" : ""}" id="${msg.id}" data-id="${msg.id}" title="${isShell ? "Shell command" : "User"}">
     <div class="message-content">${trimmedText ? escapeHtml(trimmedText) : ""}${attachmentsHtml}</div>
+    ${renderMessageActions(true, backend)}
   </div>`;
 }
 
-function renderAssistantMessage(msg: AgentMessage): string {
+function renderAssistantMessage(msg: AgentMessage, backend?: BackendInfo): string {
   if (!msg.contentBlocks?.length) return "";
 
   let html = `<div class="message message--assistant" id="${msg.id}" data-id="${msg.id}" title="Assistant">
@@ -521,7 +571,7 @@ function renderAssistantMessage(msg: AgentMessage): string {
     html += renderContentBlock(block);
   }
 
-  html += `</div></div>`;
+  html += `</div>${renderMessageActions(false, backend)}</div>`;
   return html;
 }
 
@@ -816,6 +866,12 @@ export function renderTurnCompleteFooter(msg: AgentMessage): string {
 function renderSystemMessage(msg: AgentMessage): string {
   if (!msg.text) return "";
 
+  if (msg.isCompaction) {
+    return `<div class="message message--system message--compaction" id="${msg.id}" data-id="${msg.id}" title="Earlier context was summarized">
+      <div class="message-content">${escapeHtml(msg.text)}</div>
+    </div>`;
+  }
+
   return `<div class="message message--system" id="${msg.id}" data-id="${msg.id}" title="System">
     <div class="message-content">${escapeHtml(msg.text)}</div>
   </div>`;
@@ -823,10 +879,10 @@ function renderSystemMessage(msg: AgentMessage): string {
 
 // --- Raw Mode ---
 
-export function renderRawConversation(session: AgentSession, messages: AgentMessage[]): string {
+export function renderRawConversation(session: AgentSession, backend: BackendInfo, messages: AgentMessage[]): string {
   const lines: string[] = [];
   lines.push(`=== SESSION: ${session.repoName} (${session.id}) ===`);
-  lines.push(`Runtime: OpenCode`);
+  lines.push(`Runtime: ${backend.label}`);
   lines.push(`Model: ${session.model || "default"}`);
   if (session.modelProviderId) {
     lines.push(`Provider: ${session.modelProviderId}`);
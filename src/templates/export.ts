@@ -0,0 +1,187 @@
+import type { AgentSession, AgentMessage, BackendInfo, ContentBlock } from "../types.ts";
+import {
+  escapeHtml,
+  formatCost,
+  formatDuration,
+  getToolPreview,
+  renderMessage,
+  renderRawConversation,
+  renderTurnCompleteFooter,
+} from "./components.ts";
+
+// --- Markdown Export ---
+
+/** Wraps text in a code fence longer than any backtick run inside it. */
+function codeFence(text: string, lang = ""): string {
+  const longestRun = Math.max(2, ...Array.from(text.matchAll(/`+/g), (m) => m[0].length));
+  const fence = "`".repeat(longestRun + 1);
+  return `${fence}${lang}\n${text}\n${fence}`;
+}
+
+function collapsible(summary: string, body: string): string {
+  // Blank lines around the body let GitHub render the markdown inside <details>
+  return `<details>\n<summary>${escapeHtml(summary)}</summary>\n\n${body}\n\n</details>`;
+}
+
+function toolInputText(input: unknown): string {
+  if (input === undefined || input === null) return "";
+  return typeof input === "string" ? input : JSON.stringify(input, null, 2);
+}
+
+function renderMarkdownToolCall(block: ContentBlock, result: ContentBlock | undefined): string {
+  const name = block.toolName ?? "Unknown tool";
+  const preview = getToolPreview(name, block.toolInput as Record<string, any>);
+  const parts: string[] = [];
+  const input = toolInputText(block.toolInput);
+  if (input) parts.push(codeFence(input, "json"));
+  if (result?.content) {
+    parts.push(`**${result.isError ? "Error" : "Result"}**`);
+    parts.push(codeFence(result.content));
+  }
+  return collapsible(`${name}${preview ? `: ${preview}` : ""}`, parts.join("\n\n") || "_No input_");
+}
+
+function turnSummary(msg: AgentMessage): string {
+  const parts: string[] = [];
+  if (msg.durationMs) parts.push(`completed in ${formatDuration(msg.durationMs)}`);
+  if (msg.costUsd) parts.push(formatCost(msg.costUsd));
+  if (msg.numTurns) parts.push(`${msg.numTurns} turns`);
+  return parts.length > 0 ? `_Turn ${parts.join(" · ")}_` : "_Turn complete_";
+}
+
+function quote(text: string): string {
+  return text.split("\n").map((line) => `> ${line}`).join("\n");
+}
+
+function renderMarkdownMessage(msg: AgentMessage, toolResults: Map<string, ContentBlock>): string {
+  const sections: string[] = [];
+
+  if (msg.permissionData) {
+    const pd = msg.permissionData;
+    const preview = getToolPreview(pd.toolName, pd.toolInput as Record<string, any>);
+    sections.push(quote(`**Permission** \`${pd.toolName}\`${preview ? ` ${preview}` : ""}: ${pd.resolved ?? "pending"}`));
+  } else if (msg.questionData) {
+    const questions = msg.questionData.questions.map((q) => `- ${q.question}`).join("\n");
+    const answer = msg.questionData.answerSummary ?? msg.questionData.resolved ?? "unanswered";
+    sections.push(quote(`**Question**\n${questions}\n\n**Answer:** ${answer}`));
+  } else if (msg.planApprovalData) {
+    const plan = msg.planApprovalData;
+    sections.push(collapsible(`Plan (${plan.resolved ?? "pending"})`, plan.planContent ?? "_No plan content_"));
+    if (plan.reviseFeedback) sections.push(quote(`**Revision requested:** ${plan.reviseFeedback}`));
+  } else {
+    switch (msg.type) {
+      case "user": {
+        const text = (msg.userText ?? msg.text ?? "").trim();
+        const attachments = (msg.attachments ?? []).map((att) => `- 📎 ${att.name}`);
+        if (!text && attachments.length === 0) break;
+        sections.push(`### User\n\n${[text, attachments.join("\n")].filter(Boolean).join("\n\n")}`);
+        break;
+      }
+      case "assistant": {
+        const blocks: string[] = [];
+        for (const block of msg.contentBlocks ?? []) {
+          if (block.type === "text" && block.text?.trim()) {
+            blocks.push(block.text.trim());
+          } else if (block.type === "thinking" && block.text?.trim()) {
+            blocks.push(collapsible("Thinking", block.text.trim()));
+          } else if (block.type === "tool_use") {
+            blocks.push(renderMarkdownToolCall(block, block.toolUseId ? toolResults.get(block.toolUseId) : undefined));
+          } else if (block.type === "tool_result" && block.content && !(block.toolUseId && toolResults.has(block.toolUseId))) {
+            blocks.push(collapsible(block.isError ? "Tool error" : "Tool result", codeFence(block.content)));
+          }
+        }
+        if (blocks.length > 0) sections.push(`### Assistant\n\n${blocks.join("\n\n")}`);
+        break;
+      }
+      case "result":
+        sections.push(msg.isError ? quote(`**Error:** ${msg.text ?? "Agent error"}`) : turnSummary(msg));
+        break;
+      case "system":
+        if (msg.text) sections.push(quote(msg.text));
+        break;
+    }
+  }
+
+  return sections.join("\n\n");
+}
+
+/** Readable prose transcript for pasting into PRs and postmortems; tool calls fold into <details>. */
+export function renderMarkdownExport(session: AgentSession, messages: AgentMessage[]): string {
+  // Pair tool results with their calls so each call renders as one collapsible block
+  const toolResults = new Map<string, ContentBlock>();
+  const toolUseIds = new Set<string>();
+  for (const msg of messages) {
+    for (const block of msg.contentBlocks ?? []) {
+      if (block.type === "tool_use" && block.toolUseId) toolUseIds.add(block.toolUseId);
+      if (block.type === "tool_result" && block.toolUseId) toolResults.set(block.toolUseId, block);
+    }
+  }
+  for (const id of toolResults.keys()) {
+    if (!toolUseIds.has(id)) toolResults.delete(id);
+  }
+
+  const lines = [
+    `# ${session.repoName} · ${session.id.slice(0, 8)}`,
+    "",
+    `- Model: ${session.modelProviderId ? `${session.modelProviderId}/` : ""}${session.model || "default"}`,
+    `- Mode: ${session.permissionMode || "default"}`,
+    `- Created: ${session.createdAt.toISOString()}`,
+    `- Turns: ${session.turnCount}, tokens: ${session.inputTokens} in / ${session.outputTokens} out${session.totalCostUsd ? `, cost: ${formatCost(session.totalCostUsd)}` : ""}`,
+    "",
+    "---",
+  ];
+
+  for (const msg of messages) {
+    const section = renderMarkdownMessage(msg, toolResults);
+    if (section) lines.push("", section);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// --- HTML Export ---
+
+/**
+ * Self-contained snapshot of the conversation view. Stylesheets are inlined and the
+ * raw transcript is appended in a collapsed block, so the file opens anywhere offline.
+ */
+export function renderHtmlExport(session: AgentSession, backend: BackendInfo, messages: AgentMessage[], stylesheets: string[]): string {
+  const messagesHtml = messages
+    .map((msg) => (msg.type === "result" && !msg.isError ? renderTurnCompleteFooter(msg) : renderMessage(msg)))
+    .filter(Boolean)
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(session.repoName)} · ${escapeHtml(session.id.slice(0, 8))} · maestro</title>
+  ${stylesheets.map((css) => `<style>\n${css.replace(/<\/style/gi, "<\\/style")}\n</style>`).join("\n  ")}
+  <style>
+    body { overflow: auto; }
+    .session-export { max-width: 960px; margin: 0 auto; }
+    .session-export .conversation-stream { flex-direction: column; overflow: visible; }
+    .session-export .message-actions { display: none !important; }
+    .session-export-raw { padding: 8px 16px 24px; }
+    .session-export-raw pre { white-space: pre-wrap; font-family: var(--font-mono); font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="session-detail session-export" data-session-id="${escapeHtml(session.id)}">
+    <div class="session-header">
+      <span class="session-header-repo">${escapeHtml(session.repoName)}</span>
+      <span class="session-header-slug">${escapeHtml(session.id.slice(0, 8))}</span>
+      <span class="session-header-slug">${escapeHtml(session.model || "default")} · exported ${escapeHtml(new Date().toISOString())}</span>
+    </div>
+    <div class="conversation-stream">
+      ${messagesHtml}
+    </div>
+    <details class="session-export-raw">
+      <summary>Raw transcript</summary>
+      <pre>${escapeHtml(renderRawConversation(session, backend, messages))}</pre>
+    </details>
+  </div>
+</body>
+</html>`;
+}
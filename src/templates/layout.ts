@@ -1,17 +1,22 @@
-import type { AgentSession, LaunchableRepo, AgentMessage, RepoGitStatus } from "../types.ts";
+import type { AgentSession, BackendInfo, LaunchableRepo, AgentMessage, RepoGitStatus, OpencodeRuntimeStatus } from "../types.ts";
 import { renderSidebar } from "./sidebar.ts";
 import { renderSessionDetail, renderEmptyDetail } from "./session-detail.ts";
+import { escapeHtml } from "./components.ts";
 
 export function renderLayout(
   sessions: AgentSession[],
   repos: LaunchableRepo[],
   activeSession: AgentSession | null,
+  activeBackend: BackendInfo | null,
   messages: AgentMessage[] = [],
-  pendingCounts?: Map<string, RepoGitStatus>
+  pendingCounts?: Map<string, RepoGitStatus>,
+  storageWarnings: string[] = [],
+  hasOlderMessages = false,
+  runtimeStatus: OpencodeRuntimeStatus = { connected: true }
 ): string {
   const sidebarHtml = renderSidebar(sessions, repos, activeSession?.id, pendingCounts);
-  const detailHtml = activeSession
-    ? renderSessionDetail(activeSession, messages)
+  const detailHtml = activeSession && activeBackend
+    ? renderSessionDetail(activeSession, activeBackend, messages, "normal", [], undefined, hasOlderMessages)
     : renderEmptyDetail(repos.length);
 
   return `<!DOCTYPE html>
@@ -35,13 +40,25 @@ export function renderLayout(
       <div class="header-left">
         <span class="logo">maestro</span>
       </div>
+      <div class="header-search">
+        <input type="search" id="transcript-search-input" class="header-search-input" name="q"
+          placeholder="Search transcripts..." autocomplete="off" spellcheck="false"
+          hx-get="/search" hx-trigger="input changed delay:300ms, search" hx-target="#search-results" hx-swap="innerHTML">
+        <div id="search-results" class="search-results hidden"></div>
+      </div>
       <div class="header-right">
+        <div id="runtime-status" sse-swap="runtime-status" hx-swap="innerHTML">${renderRuntimeStatus(runtimeStatus)}</div>
         <span class="connection-dot" id="connection-dot" title="SSE Connected"></span>
+        <button class="btn btn--ghost" onclick="showOpencodeSessions()" title="Import sessions started outside maestro">Import</button>
+        <button class="btn btn--ghost" onclick="showArchive()" title="Browse archived sessions">Archive</button>
+        <button class="btn btn--ghost" onclick="showPermissionRules()" title="Approvals remembered with Always">Rules</button>
+        <button class="btn btn--ghost" onclick="showStorage()" title="Storage usage and pruning">Storage</button>
         <button class="btn btn--ghost" id="notif-toggle" onclick="toggleNotifications()">
           Notifications: <span id="notif-status">Off</span>
         </button>
       </div>
     </header>
+    ${renderStorageWarnings(storageWarnings)}
     <div class="main">
       <aside class="sidebar">
         <div class="sidebar-filter">
@@ -70,7 +87,7 @@ export function renderLayout(
         <div class="model-modal-heading">
           <div class="model-modal-eyebrow">Model Selection</div>
           <h2 id="model-modal-title" class="model-modal-title">Choose a model</h2>
-          <p id="model-modal-subtitle" class="model-modal-subtitle">Pick the OpenCode model for this session before sending the first message.</p>
+          <p id="model-modal-subtitle" class="model-modal-subtitle">Pick the model for this session before sending the first message.</p>
         </div>
         <button type="button" class="model-modal-close" data-action="dismiss-model-modal" aria-label="Close model selector">×</button>
       </div>
@@ -95,3 +112,23 @@ export function renderLayout(
 </body>
 </html>`;
 }
+
+export function renderRuntimeStatus(status: OpencodeRuntimeStatus): string {
+  if (status.connected) return "";
+  const details = [
+    status.disconnectedAt ? `Event stream lost at ${status.disconnectedAt.toLocaleTimeString()}` : "",
+    status.reconnectAttempt ? `reconnect attempt ${status.reconnectAttempt}` : "",
+    status.nextRetryAt ? `next retry at ${status.nextRetryAt.toLocaleTimeString()}` : "",
+  ].filter(Boolean).join(", ");
+  return `<span class="runtime-status runtime-status--disconnected" role="status" title="${escapeHtml(details)}">Runtime disconnected</span>`;
+}
+
+function renderStorageWarnings(warnings: string[]): string {
+  if (warnings.length === 0) return "";
+  return `<div class="storage-warning" id="storage-warning" role="alert">
+      <div class="storage-warning-body">
+        ${warnings.map((w) => `<div class="storage-warning-line">${escapeHtml(w)}</div>`).join("")}
+      </div>
+      <button class="btn btn--ghost" onclick="dismissStorageWarning()">Dismiss</button>
+    </div>`;
+}
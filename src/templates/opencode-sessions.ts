@@ -0,0 +1,54 @@
+import type { OpencodeSessionSummary } from "../types.ts";
+import { escapeHtml, escapeJs, relativeTimeAgo } from "./components.ts";
+
+// Shares the archive browser's list styling: both are "pick a stored session" views
+export function renderOpencodeSessionBrowser(summaries: OpencodeSessionSummary[], error?: string): string {
+  const groups = new Map<string, OpencodeSessionSummary[]>();
+  for (const summary of summaries) {
+    const existing = groups.get(summary.directory) ?? [];
+    existing.push(summary);
+    groups.set(summary.directory, existing);
+  }
+
+  let groupsHtml = "";
+  for (const [directory, items] of [...groups.entries()].sort((a, b) => a[0].localeCompare(b[0]))) {
+    const rows = items.map((summary) => {
+      const action = summary.adoptedSessionId
+        ? `<button class="btn btn--ghost" onclick="openSessionDetail('${escapeJs(summary.adoptedSessionId)}')">Open</button>`
+        : `<button class="btn" onclick="adoptOpencodeSession('${escapeJs(summary.sdkSessionId)}', '${escapeJs(summary.directory)}')">Import</button>`;
+      return `<div class="archive-row" data-sdk-session-id="${escapeHtml(summary.sdkSessionId)}">
+        <div class="archive-row-main">
+          <div class="archive-row-meta">
+            <span class="archive-row-slug">${escapeHtml(summary.sdkSessionId.slice(0, 12))}</span>
+            <span class="archive-row-stat" title="Updated ${escapeHtml(summary.updatedAt)}">updated ${relativeTimeAgo(new Date(summary.updatedAt))}</span>
+            ${summary.adoptedSessionId ? `<span class="archive-row-stat">in dashboard</span>` : ""}
+          </div>
+          <div class="archive-row-preview">${escapeHtml(summary.title || "Untitled session")}</div>
+        </div>
+        <div class="archive-row-actions">${action}</div>
+      </div>`;
+    }).join("");
+
+    groupsHtml += `<div class="archive-group">
+      <div class="archive-group-header" title="${escapeHtml(directory)}">
+        <span>${escapeHtml(items[0]!.repoName)}</span>
+        <span class="archive-group-count">${items.length}</span>
+      </div>
+      ${rows}
+    </div>`;
+  }
+
+  const emptyText = error
+    ? `OpenCode unavailable: ${escapeHtml(error)}`
+    : "No OpenCode sessions found for your repos.";
+
+  return `<div class="archive-browser">
+    <div class="session-header">
+      <span class="session-header-repo">Import from OpenCode</span>
+      <span class="session-header-slug">${summaries.length} session${summaries.length !== 1 ? "s" : ""}</span>
+    </div>
+    <div class="archive-list">
+      ${groupsHtml || `<div class="archive-empty">${emptyText}</div>`}
+    </div>
+  </div>`;
+}
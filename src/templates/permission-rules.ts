@@ -0,0 +1,47 @@
+import type { PermissionRule } from "../types.ts";
+import { escapeHtml, escapeJs, relativeTimeAgo } from "./components.ts";
+
+// Shares the archive browser's list styling, one group per repo
+export function renderPermissionRules(rules: PermissionRule[], cwd?: string): string {
+  const groups = new Map<string, PermissionRule[]>();
+  for (const rule of rules) {
+    const existing = groups.get(rule.cwd) ?? [];
+    existing.push(rule);
+    groups.set(rule.cwd, existing);
+  }
+
+  let groupsHtml = "";
+  for (const [repoPath, items] of [...groups.entries()].sort((a, b) => a[0].localeCompare(b[0]))) {
+    const rows = items.map((rule) => `<div class="archive-row" data-rule-id="${escapeHtml(rule.id)}">
+        <div class="archive-row-main">
+          <div class="archive-row-meta">
+            <span class="archive-row-slug">${escapeHtml(rule.permission)}</span>
+            <span class="archive-row-stat" title="Remembered ${escapeHtml(rule.createdAt)}">remembered ${relativeTimeAgo(new Date(rule.createdAt))}</span>
+          </div>
+          <div class="archive-row-preview">${escapeHtml(rule.patterns.length > 0 ? rule.patterns.join(", ") : rule.title)}</div>
+        </div>
+        <div class="archive-row-actions">
+          <button class="btn btn--danger" onclick="revokePermissionRule('${escapeJs(rule.id)}', '${escapeJs(cwd ?? "")}')">Revoke</button>
+        </div>
+      </div>`).join("");
+
+    groupsHtml += `<div class="archive-group">
+      <div class="archive-group-header" title="${escapeHtml(repoPath)}">
+        <span>${escapeHtml(items[0]!.repoName)}</span>
+        <span class="archive-group-count">${items.length}</span>
+      </div>
+      ${rows}
+    </div>`;
+  }
+
+  const repoName = rules[0]?.repoName ?? cwd?.split("/").pop();
+  return `<div class="archive-browser">
+    <div class="session-header">
+      <span class="session-header-repo">${cwd ? `Permission rules for ${escapeHtml(repoName ?? "")}` : "Permission rules"}</span>
+      <span class="session-header-slug">${rules.length} rule${rules.length !== 1 ? "s" : ""}</span>
+    </div>
+    <div class="archive-list">
+      ${groupsHtml || `<div class="archive-empty">Requests approved with "Always" are remembered here and approved without asking. Nothing remembered yet.</div>`}
+    </div>
+  </div>`;
+}
@@ -0,0 +1,42 @@
+import type { SearchHit } from "../types.ts";
+import { escapeHtml, escapeJs, relativeTime } from "./components.ts";
+
+const MESSAGE_TYPE_LABELS: Record<SearchHit["messageType"], string> = {
+  user: "User",
+  assistant: "Assistant",
+  system: "System",
+  result: "Result",
+};
+
+function renderSnippet(hit: SearchHit): string {
+  return hit.snippet
+    .map((segment) => segment.match
+      ? `<mark>${escapeHtml(segment.text)}</mark>`
+      : escapeHtml(segment.text))
+    .join("");
+}
+
+export function renderSearchResults(query: string, hits: SearchHit[]): string {
+  if (!query.trim()) return "";
+
+  if (hits.length === 0) {
+    return `<div class="search-results-empty">No messages match "${escapeHtml(query.trim())}"</div>`;
+  }
+
+  const items = hits.map((hit) => `<button type="button" class="search-result"
+      onclick="${hit.archived
+        ? `openArchivedSearchResult('${escapeJs(hit.sessionId)}')`
+        : `openSearchResult('${escapeJs(hit.sessionId)}', '${escapeJs(hit.messageId)}')`}">
+      <div class="search-result-meta">
+        <span class="search-result-repo">${escapeHtml(hit.repoName)}</span>
+        <span class="search-result-slug">${escapeHtml(hit.sessionId.slice(0, 8))}</span>
+        ${hit.archived ? `<span class="search-result-archived" title="Dismissed session; opens in the archive">archived</span>` : ""}
+        <span class="search-result-type">${MESSAGE_TYPE_LABELS[hit.messageType] ?? hit.messageType}</span>
+        <span class="search-result-time">${relativeTime(new Date(hit.timestamp))}</span>
+      </div>
+      <div class="search-result-snippet">${renderSnippet(hit)}</div>
+    </button>`).join("");
+
+  return `<div class="search-results-header">${hits.length} match${hits.length !== 1 ? "es" : ""}</div>
+    <div class="search-results-list">${items}</div>`;
+}
@@ -1,11 +1,14 @@
-import type { AgentSession, AgentMessage, SessionDiffEntry, SessionViewMode } from "../types.ts";
+import type { AgentSession, AgentMessage, BackendInfo, SessionDiffEntry, SessionViewMode } from "../types.ts";
 import { escapeHtml, renderSessionHeaderStatus, renderSessionStats, renderMessage, renderTurnCompleteFooter, renderRawConversation, renderDiffSummary } from "./components.ts";
 
 export function renderSessionDetail(
   session: AgentSession,
+  backend: BackendInfo,
   messages: AgentMessage[] = [],
   viewMode: SessionViewMode = "normal",
   diffs: SessionDiffEntry[] = [],
+  focusMessageId?: string,
+  hasOlderMessages = false,
 ): string {
   // Find the most recent non-error result message to fold into last assistant message
   const resultMsg = messages.findLast((msg) => msg.type === "result" && !msg.isError);
@@ -15,7 +18,7 @@ export function renderSessionDetail(
   let footerInjected = false;
   const messagesHtml = messages
     .map((msg, _i, arr) => {
-      const html = renderMessage(msg);
+      const html = renderMessage(msg, backend);
       if (!html) return null;
       // Inject footer into the first (newest) assistant message (array is reversed for display)
       if (!footerInjected && footerHtml && msg.type === "assistant") {
@@ -38,20 +41,20 @@ export function renderSessionDetail(
       : "";
 
   if (viewMode === "raw") {
-    const rawText = renderRawConversation(session, messages);
+    const rawText = renderRawConversation(session, backend, messages);
     return `<div class="session-detail${viewModeClass}" data-session-id="${session.id}" data-view-mode="${viewMode}">
       <div class="session-header">
         <span class="session-header-repo">${escapeHtml(session.repoName)}</span>
         <span class="session-header-slug">${escapeHtml(session.id.slice(0, 8))}</span>
         <div id="session-header-status" sse-swap="session-status" hx-swap="innerHTML">
-          ${renderSessionHeaderStatus(session, viewMode)}
+          ${renderSessionHeaderStatus(session, backend, viewMode)}
         </div>
       </div>
       <div class="raw-conversation-view" id="raw-conversation-view">
         <pre class="raw-conversation-content">${escapeHtml(rawText)}</pre>
       </div>
       <div class="session-footer" id="session-stats" sse-swap="session-stats" hx-swap="innerHTML">
-        ${renderSessionStats(session)}
+        ${renderSessionStats(session, backend)}
       </div>
       </div>`;
   }
@@ -62,14 +65,14 @@ export function renderSessionDetail(
         <span class="session-header-repo">${escapeHtml(session.repoName)}</span>
         <span class="session-header-slug">${escapeHtml(session.id.slice(0, 8))}</span>
         <div id="session-header-status" sse-swap="session-status" hx-swap="innerHTML">
-          ${renderSessionHeaderStatus(session, viewMode)}
+          ${renderSessionHeaderStatus(session, backend, viewMode)}
         </div>
       </div>
       <div class="diff-view" id="diff-view">
         ${renderDiffSummary(diffs)}
       </div>
       <div class="session-footer" id="session-stats" sse-swap="session-stats" hx-swap="innerHTML">
-        ${renderSessionStats(session)}
+        ${renderSessionStats(session, backend)}
       </div>
     </div>`;
   }
@@ -79,10 +82,11 @@ export function renderSessionDetail(
       <span class="session-header-repo">${escapeHtml(session.repoName)}</span>
       <span class="session-header-slug">${escapeHtml(session.id.slice(0, 8))}</span>
       <div id="session-header-status" sse-swap="session-status" hx-swap="innerHTML">
-        ${renderSessionHeaderStatus(session, viewMode)}
+        ${renderSessionHeaderStatus(session, backend, viewMode)}
       </div>
     </div>
-    <div class="conversation-stream" id="conversation-stream" sse-swap="stream-append" hx-swap="beforeend">
+    <div class="conversation-stream" id="conversation-stream" sse-swap="stream-append" hx-swap="beforeend"${focusMessageId ? ` data-focus-message-id="${escapeHtml(focusMessageId)}"` : ""}>
+      ${hasOlderMessages && messages[0] ? renderLoadOlderControl(session.id, messages[0].id) : ""}
       ${messagesHtml || '<div id="empty-conversation-hint" class="empty-conversation-hint">Type a message to start</div>'}
     </div>
     <div id="drop-overlay" class="drop-overlay">
@@ -95,7 +99,7 @@ export function renderSessionDetail(
       <form id="message-form" onsubmit="sendMessage(event, '${session.id}')" enctype="multipart/form-data">
         <div id="attachment-preview" class="attachment-preview"></div>
         <textarea name="text" class="message-input" rows="1"
-          placeholder="Send a message... (Enter to send, Shift+Enter for newline)"
+          placeholder="Send a message, /command or !shell... (Enter to send, Shift+Enter for newline)"
           autocomplete="off" autocorrect="off" autocapitalize="off" spellcheck="false"
           onkeydown="handleMessageKeydown(event, '${session.id}')"
           onpaste="handleMessagePaste(event)"
@@ -103,11 +107,25 @@ export function renderSessionDetail(
       </form>
     </div>
     <div class="session-footer" id="session-stats" sse-swap="session-stats" hx-swap="innerHTML">
-      ${renderSessionStats(session)}
+      ${renderSessionStats(session, backend)}
     </div>
   </div>`;
 }
 
+// Sits first in the stream (the oldest end) and replaces itself with the previous page
+function renderLoadOlderControl(sessionId: string, beforeId: string): string {
+  return `<div class="load-older-messages" id="load-older-messages">
+    <button class="btn btn--ghost" hx-get="/sessions/${sessionId}/messages?before=${encodeURIComponent(beforeId)}"
+      hx-target="#load-older-messages" hx-swap="outerHTML">Load older messages</button>
+  </div>`;
+}
+
+/** One page of older history, preceded by the control for the page before it. */
+export function renderOlderMessages(sessionId: string, backend: BackendInfo, messages: AgentMessage[], hasMore: boolean): string {
+  const control = hasMore && messages[0] ? renderLoadOlderControl(sessionId, messages[0].id) : "";
+  return control + messages.map((msg) => renderMessage(msg, backend)).filter(Boolean).join("\n");
+}
+
 export function renderEmptyDetail(repoCount = 0): string {
   if (repoCount === 0) {
     return `<div class="empty-state">
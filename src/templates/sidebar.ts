@@ -17,6 +17,34 @@ function renderGitBadges(status: RepoGitStatus | undefined): string {
   return parts.join("");
 }
 
+/**
+ * Orders a repo's sessions so forks follow their parent, depth-first. Forks whose parent
+ * isn't listed (e.g. it was dismissed) are shown at the top level.
+ */
+function orderByForkTree(sessions: AgentSession[]): { session: AgentSession; depth: number }[] {
+  const listed = new Set(sessions.map((session) => session.id));
+  const children = new Map<string, AgentSession[]>();
+  const roots: AgentSession[] = [];
+  for (const session of sessions) {
+    const parentId = session.forkedFrom?.sessionId;
+    if (parentId && listed.has(parentId)) {
+      const siblings = children.get(parentId) ?? [];
+      siblings.push(session);
+      children.set(parentId, siblings);
+    } else {
+      roots.push(session);
+    }
+  }
+
+  const ordered: { session: AgentSession; depth: number }[] = [];
+  const visit = (session: AgentSession, depth: number) => {
+    ordered.push({ session, depth });
+    for (const child of children.get(session.id) ?? []) visit(child, depth + 1);
+  };
+  for (const root of roots) visit(root, 0);
+  return ordered;
+}
+
 export function renderSidebar(
   sessions: AgentSession[],
   repos: LaunchableRepo[],
@@ -45,13 +73,17 @@ export function renderSidebar(
         <span class="launch-item-action" onclick="event.stopPropagation(); createSession('${escapeJs(cwd)}')" style="cursor:pointer">+</span>
       </div>`;
 
-    for (const session of repoSessions) {
+    for (const { session, depth } of orderByForkTree(repoSessions)) {
       const isActive = session.id === activeSessionId;
       const slug = session.id.slice(0, 8);
+      const forkBadge = session.forkedFrom
+        ? `<span class="session-card-fork" title="Forked from ${escapeHtml(session.forkedFrom.sessionId.slice(0, 8))}">&#9282;</span>`
+        : "";
       const preview = session.lastMessagePreview || "No messages yet";
       const totalTokens = session.inputTokens + session.outputTokens;
 
-      html += `<div class="session-card${isActive ? " active" : ""}"
+      html += `<div class="session-card${isActive ? " active" : ""}${depth > 0 ? " session-card--fork" : ""}"
+        ${depth > 0 ? `style="--fork-depth: ${depth}"` : ""}
         hx-get="/sessions/${session.id}/detail"
         hx-target="#session-detail"
         hx-swap="innerHTML"
@@ -60,12 +92,13 @@ export function renderSidebar(
         tabindex="0">
         <div class="session-card-row">
           ${statusDot(session.status)}
+          ${forkBadge}
           <span class="session-card-slug">${escapeHtml(slug)}</span>
           <span class="session-card-tokens">${formatTokens(totalTokens)}</span>
           <span class="session-card-time"
                 data-last-activity="${((['streaming', 'starting'].includes(session.status)) && session.turnStartedAt ? session.turnStartedAt : session.lastActivity).toISOString()}"
                 data-status="${session.status}">${relativeTime(session.lastActivity)}</span>
-          <button class="dismiss-btn" onclick="event.stopPropagation(); dismissSession('${session.id}')" title="Dismiss session">&times;</button>
+          <button class="dismiss-btn" onclick="event.stopPropagation(); dismissSession('${session.id}')" title="Dismiss session (moves it to the archive)">&times;</button>
         </div>
         <div class="session-card-preview">${escapeHtml(preview)}</div>
       </div>`;
@@ -0,0 +1,51 @@
+import type { RetentionPolicy } from "../config.ts";
+import type { SessionStorageUsage } from "../types.ts";
+import { escapeHtml, escapeJs, relativeTimeAgo } from "./components.ts";
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describePolicy(policy: RetentionPolicy): string {
+  const limits: string[] = [];
+  if (policy.maxAgeDays) limits.push(`older than ${policy.maxAgeDays} days`);
+  if (policy.maxSessionsPerRepo) limits.push(`beyond ${policy.maxSessionsPerRepo} per repo`);
+  if (policy.maxTotalSizeMb) limits.push(`over ${policy.maxTotalSizeMb} MB total`);
+  return limits.length > 0
+    ? `Retention prunes sessions ${limits.join(", ")}, checked hourly.`
+    : `No retention limits configured. Set "retention" in ~/.maestro/config.json to prune automatically.`;
+}
+
+export function renderStoragePanel(usage: SessionStorageUsage[], fileBytes: number, policy: RetentionPolicy): string {
+  const totalBytes = usage.reduce((sum, entry) => sum + entry.bytes, 0);
+
+  const rows = usage.map((entry) => `<div class="archive-row" data-storage-session-id="${escapeHtml(entry.sessionId)}">
+      <div class="archive-row-main">
+        <div class="archive-row-meta">
+          <span class="archive-row-slug">${escapeHtml(entry.repoName)} · ${escapeHtml(entry.sessionId.slice(0, 8))}</span>
+          <span class="archive-row-stat">${entry.messageCount} message${entry.messageCount !== 1 ? "s" : ""}</span>
+          <span class="archive-row-stat" title="Last activity ${escapeHtml(entry.lastActivity)}">${relativeTimeAgo(new Date(entry.lastActivity))}</span>
+          ${entry.archived ? `<span class="archive-row-stat">archived</span>` : ""}
+        </div>
+      </div>
+      <span class="storage-row-size">${formatBytes(entry.bytes)}</span>
+      <div class="archive-row-actions">
+        <button class="btn btn--danger" onclick="pruneStoredSession('${escapeJs(entry.sessionId)}')">Prune</button>
+      </div>
+    </div>`).join("");
+
+  return `<div class="archive-browser">
+    <div class="session-header">
+      <span class="session-header-repo">Storage</span>
+      <span class="session-header-slug">${usage.length} session${usage.length !== 1 ? "s" : ""} · ${formatBytes(totalBytes)} of transcripts · ${formatBytes(fileBytes)} on disk</span>
+      <span class="session-header-spacer"></span>
+      <button class="btn btn--ghost" onclick="sweepRetention()" title="Apply the retention policy now">Apply retention</button>
+    </div>
+    <div class="storage-policy">${escapeHtml(describePolicy(policy))}</div>
+    <div class="archive-list">
+      ${rows || `<div class="archive-empty">No stored sessions.</div>`}
+    </div>
+  </div>`;
+}
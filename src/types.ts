@@ -8,7 +8,17 @@ export type AgentStatus =
   | "error"
   | "stopped";
 
-export type AgentBackend = "opencode";
+export type AgentBackend = "opencode" | "demo";
+
+// How templates present a session's runtime, taken from its backend adapter
+export interface BackendInfo {
+  label: string;
+  // Optional capabilities the UI offers only when the runtime has them
+  canSwitchAgents: boolean;
+  // Also need the session to exist on the runtime
+  canFork: boolean;
+  canRewind: boolean;
+}
 
 // --- Content Blocks (reused from old sessions.ts) ---
 
@@ -36,7 +46,8 @@ export interface Attachment {
   name: string;
   type: string; // MIME type
   size: number; // bytes
-  data: string; // base64 encoded
+  // Base64 bytes, only on messages saved before attachments moved to the store; see loadAttachment
+  data?: string;
 }
 
 // --- Agent Messages ---
@@ -61,6 +72,8 @@ export interface AgentMessage {
     toolInput: Record<string, unknown>;
     toolUseId: string;
     resolved?: "allowed" | "denied" | "timed_out";
+    // How the request was settled when not by a one-off click, e.g. the repo rule that approved it
+    decidedBy?: string;
   };
   questionData?: {
     questions: QuestionItem[];
@@ -77,6 +90,8 @@ export interface AgentMessage {
     reviseFeedback?: string;
   };
   attachments?: Attachment[];
+  // System message marking where the conversation was summarized
+  isCompaction?: boolean;
   // Raw SDK message data for truly raw mode
   rawRequest?: unknown;
   rawResponse?: unknown;
@@ -90,7 +105,22 @@ export interface PendingPermission {
   toolName: string;
   toolInput: Record<string, unknown>;
   resolve: (result: { behavior: "allow" } | { behavior: "deny"; message: string }) => void;
-  timeoutId: ReturnType<typeof setTimeout>;
+  // Unset when prompts are configured to wait indefinitely
+  timeoutId?: ReturnType<typeof setTimeout>;
+}
+
+/** An "Always" approval remembered for a repo; matching requests there are approved without asking. */
+export interface PermissionRule {
+  id: string;
+  cwd: string;
+  repoName: string;
+  // Runtime permission type, e.g. "bash" or "edit"
+  permission: string;
+  // Patterns the approval covers, as the runtime reported them; empty if it reported none
+  patterns: string[];
+  // Title of the approved request, shown on the rules page
+  title: string;
+  createdAt: string;
 }
 
 export interface QuestionOption {
@@ -168,12 +198,29 @@ export interface AgentSession {
   model: string;
   modelProviderId?: string;
   permissionMode: PermissionMode;
+  // Runtime agent chosen in the stats row; when unset the backend picks one from `permissionMode`
+  agent?: string;
   hooksRunning?: boolean;
   pendingQuestions: PendingQuestion[];
   pendingPlanApproval: PendingPlanApproval | null;
   pendingPermissions: Map<string, PendingPermission>;
   messages: AgentMessage[];
   logoUrl?: string;
+  // Set while later turns are rewound; cleared by undo or by the next prompt
+  revert?: SessionRevert;
+  // Set on sessions created by forking another one; the sidebar nests them under the parent
+  forkedFrom?: { sessionId: string; messageId: string };
+  // `inputTokens` at the last compaction; auto-compact counts usage from here
+  compactedAtInputTokens?: number;
+}
+
+export interface SessionRevert {
+  // First rewound message, in dashboard and runtime ids
+  messageId: string;
+  sdkMessageId: string;
+  revertedAt: string;
+  // The rewound tail of the transcript, oldest first, restored if the rewind is undone
+  messages: PersistedMessage[];
 }
 
 // --- Git Status ---
@@ -195,6 +242,71 @@ export type PersistedSession = Omit<AgentSession, 'lastActivity' | 'createdAt' |
   messages: PersistedMessage[];
 };
 
+export type ArchivedSessionSummary = Omit<PersistedSession, 'messages'> & {
+  archivedAt: string;
+  messageCount: number;
+};
+
+// --- Transcript Search ---
+
+export interface SearchHit {
+  sessionId: string;
+  messageId: string;
+  messageType: AgentMessage["type"];
+  timestamp: string;
+  repoName: string;
+  // Hits from dismissed sessions open in the archive browser rather than the session view
+  archived: boolean;
+  // Snippet split into plain and matched segments so templates can escape and highlight
+  snippet: { text: string; match: boolean }[];
+}
+
+// --- Storage Usage ---
+
+export interface SessionStorageUsage {
+  sessionId: string;
+  repoName: string;
+  lastActivity: string;
+  archived: boolean;
+  messageCount: number;
+  // Stored size of the session row plus all of its messages
+  bytes: number;
+}
+
+// --- Session Export ---
+
+export type SessionExportFormat = "md" | "html" | "json";
+
+export interface SessionExportBundle {
+  format: "maestro-session";
+  version: number;
+  exportedAt: string;
+  session: PersistedSession;
+}
+
+// --- OpenCode Session Adoption ---
+
+export interface OpencodeSessionSummary {
+  sdkSessionId: string;
+  title: string;
+  directory: string;
+  repoName: string;
+  createdAt: string;
+  updatedAt: string;
+  // Dashboard session already mapped to this runtime session, if any
+  adoptedSessionId?: string;
+}
+
+// --- Runtime Connection ---
+
+export interface OpencodeRuntimeStatus {
+  connected: boolean;
+  // Set while the event stream is down
+  disconnectedAt?: Date;
+  reconnectAttempt?: number;
+  nextRetryAt?: Date;
+}
+
 // --- Launchable Repos ---
 
 export interface LaunchableRepo {
@@ -316,10 +316,17 @@
       var detail = e.target.closest(".session-detail[data-session-id]");
       if (detail) {
         saveSessionDraft(detail.getAttribute("data-session-id"), e.target.value);
+        updateComposerSuggestions(e.target, detail.getAttribute("data-session-id"));
       }
     }
   });
 
+  document.addEventListener("focusout", function (e) {
+    if (e.target && e.target.classList && e.target.classList.contains("message-input")) {
+      hideComposerSuggestions();
+    }
+  });
+
   function reapplyFilter() {
     var input = document.getElementById("sidebar-filter-input");
     if (input && input.value) {
@@ -428,6 +435,13 @@
       if (input && !input.disabled) {
         input.focus();
       }
+      if (container) {
+        focusSearchResultMessage(container);
+      }
+    }
+
+    if (e.detail.target && e.detail.target.id === "search-results") {
+      e.detail.target.classList.toggle("hidden", !e.detail.target.innerHTML.trim());
     }
 
     if (e.detail.target && e.detail.target.id === "session-header-status") {
@@ -436,6 +450,68 @@
 
   });
 
+  // --- Transcript Search ---
+
+  function hideSearchResults() {
+    var results = document.getElementById("search-results");
+    if (results) results.classList.add("hidden");
+  }
+
+  function focusSearchResultMessage(container) {
+    var messageId = container.getAttribute("data-focus-message-id");
+    if (!messageId) return;
+    var target = container.querySelector('[data-id="' + CSS.escape(messageId) + '"]');
+    if (!target) return;
+    requestAnimationFrame(function () {
+      isProgrammaticScroll = true;
+      target.scrollIntoView({ block: "center" });
+      target.classList.add("message--search-focus");
+      requestAnimationFrame(function () {
+        isProgrammaticScroll = false;
+      });
+      setTimeout(function () {
+        target.classList.remove("message--search-focus");
+      }, 2500);
+    });
+  }
+
+  window.openSearchResult = function (sessionId, messageId) {
+    hideSearchResults();
+    switchSession(sessionId, { skipEditorFocus: true });
+    htmx.ajax("GET", "/sessions/" + sessionId + "/detail?focus=" + encodeURIComponent(messageId), "#session-detail");
+  };
+
+  // Archived sessions aren't in the sidebar; show their row in the archive browser instead
+  window.openArchivedSearchResult = function (sessionId) {
+    hideSearchResults();
+    showArchive().then(function () {
+      var row = document.querySelector('.archive-row[data-archived-session-id="' + sessionId + '"]');
+      if (!row) return;
+      row.scrollIntoView({ block: "center" });
+      row.classList.add("archive-row--search-focus");
+      setTimeout(function () {
+        row.classList.remove("archive-row--search-focus");
+      }, 2500);
+    });
+  };
+
+  document.addEventListener("keydown", function (e) {
+    if (e.key !== "Escape" || !e.target || e.target.id !== "transcript-search-input") return;
+    e.target.value = "";
+    hideSearchResults();
+  });
+
+  document.addEventListener("click", function (e) {
+    if (e.target && e.target.closest && e.target.closest(".header-search")) return;
+    hideSearchResults();
+  });
+
+  document.addEventListener("focusin", function (e) {
+    if (!e.target || e.target.id !== "transcript-search-input") return;
+    var results = document.getElementById("search-results");
+    if (results && results.innerHTML.trim()) results.classList.remove("hidden");
+  });
+
   // --- Session Dismiss ---
 
   window.dismissSession = function (sessionId) {
@@ -455,6 +531,262 @@
       .catch(function (err) { console.warn("Dismiss session failed:", err); });
   };
 
+  // --- Archive ---
+
+  window.openSessionDetail = function (sessionId) {
+    switchSession(sessionId);
+    htmx.ajax("GET", "/sessions/" + sessionId + "/detail", "#session-detail");
+  };
+
+  window.showArchive = function () {
+    saveVisibleSessionDraft();
+    currentSessionId = null;
+    document.querySelectorAll(".session-card").forEach(function (card) {
+      card.classList.remove("active");
+    });
+    return htmx.ajax("GET", "/archive", "#session-detail");
+  };
+
+  window.restoreArchivedSession = function (sessionId) {
+    postJson("/api/archive/" + sessionId + "/restore")
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        openSessionDetail(sessionId);
+      })
+      .catch(function (err) {
+        console.error("Restore session failed:", err);
+        showNotificationBanner(err instanceof Error ? err.message : "Failed to restore session", "error");
+      });
+  };
+
+  window.deleteArchivedSession = function (sessionId) {
+    if (!confirm("Permanently delete this session and its transcript? This cannot be undone.")) return;
+    fetch("/api/archive/" + sessionId, { method: "DELETE" })
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        htmx.ajax("GET", "/archive", "#session-detail");
+      })
+      .catch(function (err) {
+        console.error("Delete archived session failed:", err);
+        showNotificationBanner(err instanceof Error ? err.message : "Failed to delete session", "error");
+      });
+  };
+
+  window.importSessionBundle = function (input) {
+    var file = input.files && input.files[0];
+    if (!file) return;
+    file.text()
+      .then(function (text) {
+        return fetch("/api/sessions/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: text,
+        });
+      })
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        var data = await res.json();
+        openSessionDetail(data.sessionId);
+      })
+      .catch(function (err) {
+        console.error("Import session failed:", err);
+        showNotificationBanner(err instanceof Error ? err.message : "Failed to import session", "error");
+      })
+      .finally(function () {
+        input.value = "";
+      });
+  };
+
+  // --- Transcript Resync ---
+
+  window.resyncSession = function (sessionId) {
+    postJson("/api/agents/" + sessionId + "/resync")
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        var data = await res.json();
+        var changes = data.added + data.updated;
+        showNotificationBanner(
+          changes > 0 ? "Resynced: " + data.added + " added, " + data.updated + " updated" : "Transcript already up to date",
+          "success"
+        );
+        if (sessionId === currentSessionId) {
+          htmx.ajax("GET", "/sessions/" + sessionId + "/detail", "#session-detail");
+        }
+      })
+      .catch(function (err) {
+        console.error("Resync failed:", err);
+        showNotificationBanner(err instanceof Error ? err.message : "Resync failed", "error");
+      });
+  };
+
+  // --- Message Actions ---
+
+  window.rewindToMessage = function (button) {
+    var detail = button.closest(".session-detail[data-session-id]");
+    var message = button.closest(".message[data-id]");
+    if (!detail || !message) return;
+    var sessionId = detail.getAttribute("data-session-id");
+    if (!confirm("Rewind to before this message? Later messages are hidden and their file changes reverted until you undo.")) return;
+    postJson("/api/agents/" + sessionId + "/revert", { messageId: message.getAttribute("data-id") })
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        var data = await res.json();
+        // Offer the rewound prompt for editing unless something is already being typed
+        var input = detail.querySelector(".message-input");
+        if (data.text && (!input || !input.value.trim())) saveSessionDraft(sessionId, data.text);
+        if (sessionId === currentSessionId) setSessionViewMode(sessionId, getActiveSessionViewMode());
+      })
+      .catch(function (err) {
+        console.error("Rewind failed:", err);
+        showNotificationBanner(err instanceof Error ? err.message : "Rewind failed", "error");
+      });
+  };
+
+  window.forkFromMessage = function (button) {
+    var detail = button.closest(".session-detail[data-session-id]");
+    var message = button.closest(".message[data-id]");
+    if (!detail || !message) return;
+    var sessionId = detail.getAttribute("data-session-id");
+    postJson("/api/agents/" + sessionId + "/fork", { messageId: message.getAttribute("data-id") })
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        return res.json();
+      })
+      .then(function (data) {
+        if (!data.sessionId) return;
+        if (data.text) saveSessionDraft(data.sessionId, data.text);
+        switchSession(data.sessionId);
+        htmx.ajax("GET", "/sessions/" + data.sessionId + "/detail", "#session-detail");
+      })
+      .catch(function (err) {
+        console.error("Fork failed:", err);
+        showNotificationBanner(err instanceof Error ? err.message : "Fork failed", "error");
+      });
+  };
+
+  window.compactSession = function (sessionId) {
+    postJson("/api/agents/" + sessionId + "/compact")
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        showNotificationBanner("Conversation compacted", "success");
+      })
+      .catch(function (err) {
+        console.error("Compact failed:", err);
+        showNotificationBanner(err instanceof Error ? err.message : "Compact failed", "error");
+      });
+  };
+
+  window.undoRewind = function (sessionId) {
+    postJson("/api/agents/" + sessionId + "/unrevert")
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        showNotificationBanner("Rewind undone", "success");
+        if (sessionId === currentSessionId) setSessionViewMode(sessionId, getActiveSessionViewMode());
+      })
+      .catch(function (err) {
+        console.error("Undo rewind failed:", err);
+        showNotificationBanner(err instanceof Error ? err.message : "Undo rewind failed", "error");
+      });
+  };
+
+  // --- OpenCode Session Import ---
+
+  window.showOpencodeSessions = function () {
+    saveVisibleSessionDraft();
+    currentSessionId = null;
+    document.querySelectorAll(".session-card").forEach(function (card) {
+      card.classList.remove("active");
+    });
+    htmx.ajax("GET", "/opencode-sessions", "#session-detail");
+  };
+
+  window.adoptOpencodeSession = function (sdkSessionId, cwd) {
+    postJson("/api/opencode/sessions/" + encodeURIComponent(sdkSessionId) + "/adopt", { cwd: cwd })
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        var data = await res.json();
+        openSessionDetail(data.sessionId);
+      })
+      .catch(function (err) {
+        console.error("Import OpenCode session failed:", err);
+        showNotificationBanner(err instanceof Error ? err.message : "Failed to import OpenCode session", "error");
+      });
+  };
+
+  // --- Storage Health ---
+
+  window.showStorage = function () {
+    saveVisibleSessionDraft();
+    currentSessionId = null;
+    document.querySelectorAll(".session-card").forEach(function (card) {
+      card.classList.remove("active");
+    });
+    htmx.ajax("GET", "/storage", "#session-detail");
+  };
+
+  // Remembered "Always" approvals, for one repo when `cwd` is given
+  function permissionRulesUrl(cwd) {
+    return "/permission-rules" + (cwd ? "?cwd=" + encodeURIComponent(cwd) : "");
+  }
+
+  window.showPermissionRules = function (cwd) {
+    saveVisibleSessionDraft();
+    currentSessionId = null;
+    document.querySelectorAll(".session-card").forEach(function (card) {
+      card.classList.remove("active");
+    });
+    htmx.ajax("GET", permissionRulesUrl(cwd), "#session-detail");
+  };
+
+  window.revokePermissionRule = function (ruleId, cwd) {
+    fetch("/api/permission-rules/" + encodeURIComponent(ruleId), { method: "DELETE" })
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        htmx.ajax("GET", permissionRulesUrl(cwd), "#session-detail");
+      })
+      .catch(function (err) {
+        showNotificationBanner(err instanceof Error ? err.message : "Failed to revoke rule", "error");
+      });
+  };
+
+  window.pruneStoredSession = function (sessionId) {
+    if (!confirm("Permanently delete this session and its transcript? This cannot be undone.")) return;
+    postJson("/api/storage/prune", { sessionIds: [sessionId] })
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        var data = await res.json();
+        if (data.pruned.length === 0) {
+          showNotificationBanner("Session is busy and was not pruned", "warning");
+        }
+        htmx.ajax("GET", "/storage", "#session-detail");
+      })
+      .catch(function (err) {
+        console.error("Prune failed:", err);
+        showNotificationBanner(err instanceof Error ? err.message : "Prune failed", "error");
+      });
+  };
+
+  window.sweepRetention = function () {
+    postJson("/api/storage/sweep")
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        var data = await res.json();
+        showNotificationBanner("Retention pruned " + data.pruned.length + " session(s)", "success");
+        htmx.ajax("GET", "/storage", "#session-detail");
+      })
+      .catch(function (err) {
+        console.error("Retention sweep failed:", err);
+        showNotificationBanner(err instanceof Error ? err.message : "Retention sweep failed", "error");
+      });
+  };
+
+  window.dismissStorageWarning = function () {
+    var warning = document.getElementById("storage-warning");
+    if (warning) warning.remove();
+    postJson("/api/storage/warnings/dismiss")
+      .catch(function (err) { console.warn("Dismiss storage warning failed:", err); });
+  };
+
   // --- Session Switching ---
 
   window.switchSession = function (sessionId, opts) {
@@ -562,10 +894,9 @@
       return "Current: Default OpenCode model";
     }
     var matchedModel = null;
-    if (catalog && catalog.opencode) {
-      matchedModel = catalog.opencode.find(function (model) {
-        return model.model === currentSelection.model
-          && (model.providerId || "") === (currentSelection.providerId || "");
+    if (catalog && catalog.models) {
+      matchedModel = catalog.models.find(function (model) {
+        return isSameModel(model, currentSelection);
       }) || null;
     }
     var providerName = matchedModel && matchedModel.providerName
@@ -576,9 +907,16 @@
     return "Current: " + modelLabel + " · " + providerName + " · " + route;
   }
 
+  function isSameModel(model, selection) {
+    return model.model === selection.model
+      && (model.providerId || "") === (selection.providerId || "")
+      && (!selection.backend || model.backend === selection.backend);
+  }
+
   function getCurrentModelSelection(trigger) {
-    if (!trigger) return { model: "", providerId: "", label: "" };
+    if (!trigger) return { backend: "", model: "", providerId: "", label: "" };
     return {
+      backend: trigger.getAttribute("data-current-backend") || "",
       model: trigger.getAttribute("data-current-model") || "",
       providerId: trigger.getAttribute("data-current-provider-id") || "",
       label: (trigger.textContent || "").trim(),
@@ -622,9 +960,7 @@
     var opt = document.createElement("button");
     opt.className = "model-picker-option";
     opt.type = "button";
-    var isSelected = currentSelection
-      && currentSelection.model === model.model
-      && (currentSelection.providerId || "") === (model.providerId || "");
+    var isSelected = currentSelection && isSameModel(model, currentSelection);
     if (isSelected) {
       opt.classList.add("is-selected");
     }
@@ -656,7 +992,7 @@
   function groupModelsByProvider(models) {
     var groups = new Map();
     models.forEach(function (model) {
-      var providerKey = model.providerId || "other";
+      var providerKey = model.backend + ":" + (model.providerId || "other");
       var group = groups.get(providerKey);
       if (!group) {
         group = {
@@ -693,19 +1029,19 @@
   function renderModelPicker(container, sessionId, catalog, currentSelection, query) {
     container.innerHTML = "";
     var normalizedQuery = (query || "").trim().toLowerCase();
-    var filteredModels = (catalog.opencode || []).filter(function (model) {
+    var filteredModels = (catalog.models || []).filter(function (model) {
       return matchesModelSearch(model, normalizedQuery);
     });
     groupModelsByProvider(filteredModels).forEach(function (group) {
       appendModelSection(container, group.title, group.models, sessionId, currentSelection);
     });
 
-    if (catalog.opencodeError) {
+    (catalog.errors || []).forEach(function (error) {
       var note = document.createElement("div");
       note.className = "model-modal-note";
-      note.textContent = "OpenCode unavailable: " + catalog.opencodeError;
+      note.textContent = error.label + " unavailable: " + error.message;
       container.appendChild(note);
-    }
+    });
 
     if (!container.children.length) {
       var empty = document.createElement("div");
@@ -784,6 +1120,17 @@
   }
 
   document.addEventListener("click", function (e) {
+    var agentTarget = e.target && e.target.closest ? e.target.closest("[data-action='show-agent-picker']") : null;
+    if (agentTarget) {
+      e.preventDefault();
+      if (agentPicker && agentPicker.sessionId === agentTarget.getAttribute("data-session-id")) {
+        hideAgentPicker();
+      } else {
+        showAgentPicker(agentTarget, agentTarget.getAttribute("data-session-id"));
+      }
+      return;
+    }
+    if (agentPicker && !agentPicker.element.contains(e.target)) hideAgentPicker();
     var modeTarget = e.target && e.target.closest ? e.target.closest("[data-action='cycle-mode']") : null;
     if (modeTarget) {
       var modeSessionId = modeTarget.getAttribute("data-session-id");
@@ -810,6 +1157,10 @@
 
   document.addEventListener("keydown", function (e) {
     if (e.defaultPrevented) return;
+    if (e.key === "Escape" && agentPicker) {
+      hideAgentPicker();
+      return;
+    }
     if (e.key === "Escape" && activeModelPickerSessionId) {
       dismissModelPicker();
       return;
@@ -834,6 +1185,7 @@
   window.updateSessionModel = function (sessionId, model) {
     saveVisibleSessionDraft();
     postJson("/api/agents/" + sessionId + "/model", {
+      backend: model.backend,
       model: model.model,
       modelProviderId: model.providerId
     })
@@ -848,7 +1200,257 @@
       });
   };
 
+  // --- Agent Picker ---
+  // Lists the runtime's agents under the agent stat; the first entry goes back to following the mode.
+
+  var agentPicker = null;
+
+  function showAgentPicker(trigger, sessionId) {
+    hideAgentPicker();
+    var menu = document.createElement("div");
+    menu.className = "agent-picker";
+    menu.innerHTML = '<div class="agent-picker-note">Loading agents...</div>';
+    var rect = trigger.getBoundingClientRect();
+    menu.style.left = rect.left + "px";
+    menu.style.bottom = (window.innerHeight - rect.top + 4) + "px";
+    document.body.appendChild(menu);
+    agentPicker = { sessionId: sessionId, element: menu };
+
+    fetch("/api/agents/" + sessionId + "/agents")
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        return res.json();
+      })
+      .then(function (data) {
+        if (!agentPicker || agentPicker.element !== menu) return;
+        var options = [{ name: null, label: "auto", description: "Follow the permission mode" }].concat(
+          (data.agents || []).map(function (agent) {
+            return { name: agent.name, label: agent.name, description: agent.description || "" };
+          })
+        );
+        menu.innerHTML = options.map(function (option, index) {
+          var selected = option.name === (data.current || null);
+          return '<button type="button" class="agent-picker-option' + (selected ? " is-selected" : "") + '" data-index="' + index + '">' +
+            '<span class="agent-picker-label">' + escapeHtmlClient(option.label) + '</span>' +
+            '<span class="agent-picker-description">' + escapeHtmlClient(option.description) + '</span>' +
+          '</button>';
+        }).join("");
+        menu.querySelectorAll(".agent-picker-option").forEach(function (button) {
+          button.addEventListener("click", function (e) {
+            e.stopPropagation();
+            hideAgentPicker();
+            setSessionAgent(sessionId, options[Number(button.getAttribute("data-index"))].name);
+          });
+        });
+      })
+      .catch(function (err) {
+        hideAgentPicker();
+        showNotificationBanner(err instanceof Error ? err.message : "Failed to load agents", "error");
+      });
+  }
+
+  function hideAgentPicker() {
+    if (!agentPicker) return;
+    agentPicker.element.remove();
+    agentPicker = null;
+  }
+
+  function setSessionAgent(sessionId, agent) {
+    saveVisibleSessionDraft();
+    postJson("/api/agents/" + sessionId + "/agent", { agent: agent })
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        htmx.ajax("GET", "/sessions/" + sessionId + "/detail", "#session-detail");
+      })
+      .catch(function (err) {
+        showNotificationBanner(err instanceof Error ? err.message : "Agent change failed", "error");
+      });
+  }
+
+  // --- Composer Autocomplete ---
+  // `/` at the start of the input suggests slash commands; `@` before a word suggests repo files.
+
+  var commandCatalogs = {};
+  var composerSuggestions = null;
+  var fileSearchTimer = null;
+  var FILE_SEARCH_DELAY_MS = 150;
+
+  function loadCommands(sessionId) {
+    if (!commandCatalogs[sessionId]) {
+      commandCatalogs[sessionId] = fetch("/api/agents/" + sessionId + "/commands")
+        .then(async function (res) {
+          if (!res.ok) throw new Error(await readErrorResponse(res));
+          var data = await res.json();
+          return data.commands || [];
+        })
+        .catch(function (err) {
+          // Retry on the next keystroke rather than caching the failure
+          delete commandCatalogs[sessionId];
+          console.warn("Loading commands failed:", err);
+          return [];
+        });
+    }
+    return commandCatalogs[sessionId];
+  }
+
+  function searchFiles(sessionId, query) {
+    return fetch("/api/agents/" + sessionId + "/files?query=" + encodeURIComponent(query))
+      .then(async function (res) {
+        if (!res.ok) throw new Error(await readErrorResponse(res));
+        var data = await res.json();
+        return data.files || [];
+      })
+      .catch(function (err) {
+        console.warn("File search failed:", err);
+        return [];
+      });
+  }
+
+  function hideComposerSuggestions() {
+    if (fileSearchTimer) {
+      clearTimeout(fileSearchTimer);
+      fileSearchTimer = null;
+    }
+    var popup = document.getElementById("composer-suggestions");
+    if (popup) popup.remove();
+    composerSuggestions = null;
+  }
+
+  // items are { label, description?, value }; accept(item) applies the chosen one to the input
+  function showComposerSuggestions(input, items, accept) {
+    if (items.length === 0) {
+      hideComposerSuggestions();
+      return;
+    }
+    composerSuggestions = { input: input, items: items, index: 0, accept: accept };
+    renderComposerSuggestions();
+  }
+
+  function renderComposerSuggestions() {
+    var input = composerSuggestions.input;
+    var popup = document.getElementById("composer-suggestions");
+    if (!popup) {
+      popup = document.createElement("div");
+      popup.id = "composer-suggestions";
+      popup.className = "composer-suggestions";
+      popup.setAttribute("role", "listbox");
+      input.closest(".message-input-area").appendChild(popup);
+    }
+    popup.innerHTML = "";
+    composerSuggestions.items.forEach(function (item, i) {
+      var option = document.createElement("div");
+      option.className = "composer-suggestion" + (i === composerSuggestions.index ? " is-selected" : "");
+      option.setAttribute("role", "option");
+      var label = document.createElement("span");
+      label.className = "composer-suggestion-label";
+      label.textContent = item.label;
+      option.appendChild(label);
+      if (item.description) {
+        var description = document.createElement("span");
+        description.className = "composer-suggestion-description";
+        description.textContent = item.description;
+        option.appendChild(description);
+      }
+      // mousedown keeps focus in the textarea
+      option.addEventListener("mousedown", function (e) {
+        e.preventDefault();
+        acceptComposerSuggestion(i);
+      });
+      popup.appendChild(option);
+    });
+    var selected = popup.querySelector(".is-selected");
+    if (selected) selected.scrollIntoView({ block: "nearest" });
+  }
+
+  function acceptComposerSuggestion(index) {
+    var item = composerSuggestions && composerSuggestions.items[index];
+    if (!item) return;
+    var input = composerSuggestions.input;
+    composerSuggestions.accept(item);
+    hideComposerSuggestions();
+    var detail = input.closest(".session-detail[data-session-id]");
+    if (detail) saveSessionDraft(detail.getAttribute("data-session-id"), input.value);
+  }
+
+  function updateComposerSuggestions(input, sessionId) {
+    if (fileSearchTimer) {
+      clearTimeout(fileSearchTimer);
+      fileSearchTimer = null;
+    }
+    var commandMatch = /^\/(\S*)$/.exec(input.value);
+    if (commandMatch) {
+      suggestCommands(input, sessionId, commandMatch[1]);
+      return;
+    }
+
+    var caret = input.selectionStart;
+    var mentionMatch = /(^|\s)@([^\s@]*)$/.exec(input.value.slice(0, caret));
+    if (mentionMatch) {
+      var start = caret - mentionMatch[2].length - 1;
+      fileSearchTimer = setTimeout(function () {
+        fileSearchTimer = null;
+        suggestFiles(input, sessionId, start, mentionMatch[2]);
+      }, FILE_SEARCH_DELAY_MS);
+      return;
+    }
+
+    hideComposerSuggestions();
+  }
+
+  function suggestCommands(input, sessionId, typed) {
+    var query = typed.toLowerCase();
+    loadCommands(sessionId).then(function (commands) {
+      // The input may have moved on while the list loaded
+      if (input.value !== "/" + typed) return;
+      var prefixed = commands.filter(function (c) { return c.name.toLowerCase().indexOf(query) === 0; });
+      var containing = commands.filter(function (c) { return c.name.toLowerCase().indexOf(query) > 0; });
+      var items = prefixed.concat(containing).map(function (c) {
+        return { label: "/" + c.name, description: c.description, value: c.name };
+      });
+      showComposerSuggestions(input, items, function (item) {
+        input.value = "/" + item.value + " ";
+        input.setSelectionRange(input.value.length, input.value.length);
+      });
+    });
+  }
+
+  // `start` is the offset of the @ being completed
+  function suggestFiles(input, sessionId, start, typed) {
+    searchFiles(sessionId, typed).then(function (files) {
+      var caret = input.selectionStart;
+      if (input.value.slice(start, caret) !== "@" + typed) return;
+      var items = files.map(function (path) { return { label: path, value: path }; });
+      showComposerSuggestions(input, items, function (item) {
+        var before = input.value.slice(0, start);
+        var after = input.value.slice(input.selectionStart).replace(/^\S*/, "");
+        var mention = "@" + item.value + (after.charAt(0) === " " ? "" : " ");
+        input.value = before + mention + after;
+        var position = before.length + mention.length;
+        input.setSelectionRange(position, position);
+      });
+    });
+  }
+
+  // Returns true when the key was consumed by the open suggestion list
+  function handleComposerSuggestionKey(event) {
+    if (!composerSuggestions || composerSuggestions.input !== event.target) return false;
+    var count = composerSuggestions.items.length;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      composerSuggestions.index = (composerSuggestions.index + (event.key === "ArrowDown" ? 1 : count - 1)) % count;
+      renderComposerSuggestions();
+    } else if (event.key === "Tab" || (event.key === "Enter" && !event.shiftKey)) {
+      acceptComposerSuggestion(composerSuggestions.index);
+    } else if (event.key === "Escape") {
+      hideComposerSuggestions();
+    } else {
+      return false;
+    }
+    event.preventDefault();
+    return true;
+  }
+
   window.handleMessageKeydown = function (event, sessionId) {
+    if (handleComposerSuggestionKey(event)) return;
     if (event.key === 'Enter' && !event.shiftKey) {
       event.preventDefault();
       var form = event.target.closest('form');
@@ -1081,9 +1683,18 @@
 
   window.openImageLightbox = function (base64Data, mediaType) {
     mediaType = mediaType || "image/png";
+    showImageLightbox("data:" + mediaType + ";base64," + base64Data);
+  };
+
+  window.openAttachmentLightbox = function (url) {
+    showImageLightbox(url);
+  };
+
+  function showImageLightbox(src) {
     var overlay = document.createElement("div");
     overlay.className = "image-lightbox-overlay";
-    overlay.innerHTML = '<div class="image-lightbox-content"><img src="data:' + mediaType + ";base64," + base64Data + '"><button class="image-lightbox-close">×</button></div>';
+    overlay.innerHTML = '<div class="image-lightbox-content"><img><button class="image-lightbox-close">×</button></div>';
+    overlay.querySelector("img").src = src;
     document.body.appendChild(overlay);
     
     overlay.addEventListener("click", function (e) {
@@ -1091,12 +1702,12 @@
         document.body.removeChild(overlay);
       }
     });
-  };
+  }
 
-  window.approvePermission = function (sessionId, toolUseId) {
+  window.approvePermission = function (sessionId, toolUseId, always) {
     seenNotifications.delete("permission:" + sessionId);
     showTypingIndicator();
-    postJson("/api/agents/" + sessionId + "/permission", { allow: true, toolUseId: toolUseId })
+    postJson("/api/agents/" + sessionId + "/permission", { allow: true, always: !!always, toolUseId: toolUseId })
       .catch(function () { removeTypingIndicator(); });
   };
 